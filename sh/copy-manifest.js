@@ -5,10 +5,22 @@ const browser = process.env.BROWSER || 'chromium';
 const sourceManifest = path.join(__dirname, '..', 'inc', browser, 'manifest.json');
 const destManifest = path.join(__dirname, '..', 'src', 'manifest.json');
 
+// Schema of the enterprise policy settings (storage.managed); only Chromium declares one
+const sourceSchema = path.join(__dirname, '..', 'inc', browser, 'managed_schema.json');
+const destSchema = path.join(__dirname, '..', 'public', 'managed_schema.json');
+
 if (!fs.existsSync(sourceManifest)) {
     console.error(`Manifest not found for browser: ${browser}`);
     process.exit(1);
 }
 
 fs.copyFileSync(sourceManifest, destManifest);
-console.log(`Copied manifest for ${browser}`);
\ No newline at end of file
+console.log(`Copied manifest for ${browser}`);
+
+if (fs.existsSync(sourceSchema)) {
+    fs.mkdirSync(path.dirname(destSchema), { recursive: true });
+    fs.copyFileSync(sourceSchema, destSchema);
+    console.log(`Copied managed storage schema for ${browser}`);
+} else {
+    fs.rmSync(destSchema, { force: true });
+}
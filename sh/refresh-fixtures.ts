@@ -0,0 +1,81 @@
+/**
+ * Downloads the example pages of the button contributions into test/fixtures, so the selector
+ * health checks (`pnpm test`) run against the hosts' current markup.
+ *
+ * Usage: pnpm run fixtures:refresh [<contribution id> ...]
+ *
+ * Pages are fetched anonymously, as a logged-out browser would see them. Scripts and styles are
+ * stripped to keep the fixtures small, except JSON data scripts that the content script reads (e.g.
+ * GitHub's embedded React data). Parts of a page that only a browser renders can't be checked
+ * against a fixture; such contributions should leave their example URL commented out. Pages that
+ * need a session fail to download; hand-written stand-ins for them live in test/fixtures/synthetic.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { JSDOM } from "jsdom";
+import { buttonContributions } from "../src/button-contributions";
+import { fixturePath } from "../test/fixtures";
+
+/** Elements that don't affect the selectors: scripts other than JSON data, styles and preloads. */
+const STRIPPED_ELEMENTS = [
+	"script:not([type='application/json']):not([type='application/ld+json'])",
+	"style",
+	"link[rel='stylesheet']",
+	"link[rel='preload']",
+	"link[rel='modulepreload']",
+	"noscript",
+].join(", ");
+
+/** Sent like a browser, since some hosts serve reduced pages to unknown clients. */
+const REQUEST_HEADERS = {
+	"User-Agent":
+		"Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36",
+	Accept: "text/html",
+	"Accept-Language": "en-US,en;q=0.9",
+};
+
+/**
+ * Fetches a page and strips what the selectors don't need.
+ *
+ * @param url - The example URL.
+ * @returns The reduced HTML.
+ */
+async function fetchPage(url: string): Promise<string> {
+	const response = await fetch(url, { headers: REQUEST_HEADERS, redirect: "follow" });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+
+	const dom = new JSDOM(await response.text(), { url });
+	dom.window.document.querySelectorAll(STRIPPED_ELEMENTS).forEach((element) => element.remove());
+	return dom.serialize();
+}
+
+async function main(): Promise<void> {
+	const ids = process.argv.slice(2);
+	const urls = new Set(
+		buttonContributions
+			.filter((contribution) => ids.length === 0 || ids.includes(contribution.id))
+			.flatMap((contribution) => contribution.exampleUrls),
+	);
+
+	let failures = 0;
+	for (const url of urls) {
+		const file = fixturePath(url);
+		try {
+			const html = await fetchPage(url);
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, html);
+			console.log(`Saved ${url}`);
+		} catch (error) {
+			failures++;
+			console.error(`Failed ${url}: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	console.log(`Refreshed ${urls.size - failures} of ${urls.size} fixtures`);
+	if (failures > 0) process.exit(1);
+}
+
+main();
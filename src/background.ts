@@ -0,0 +1,532 @@
+/**
+ * Background worker: toolbar action and link context menus.
+ *
+ * The toolbar popup's "Open current repository" asks this worker to open the current tab's repository
+ * in the primary workspace profile. The content script resolves the URL (it can read the page, e.g.
+ * for merge request branches); pages without a content script fall back to URL-only resolution here.
+ *
+ * Right-clicking a link to a repository, branch, pull request or merge request offers "Open in
+ * workspace" and "Open in workspace with profile…", so a launch doesn't require navigating first.
+ *
+ * The "open-workspace" keyboard shortcut (Alt+Shift+O by default) launches the current tab like the
+ * popup does, and shows a brief toast on the page when it isn't a repository.
+ *
+ * Profiles with an API-based workspace platform (see platforms.ts) are launched here too, also when
+ * their button is clicked on a page: the worker may call the platform's API across origins. When
+ * the API call fails, the page is told why and the profile's URL is opened instead.
+ *
+ * Launches also go through here when the profile's reuse policy may avoid opening another workspace:
+ * the worker knows the tabs it opened workspaces in (see workspace-tabs.ts) and the previous launches,
+ * and switches to such a tab, resumes the previous workspace, or asks on the page what to do.
+ *
+ * Every launch is recorded in the launch history here, also those a page or the popup opened itself:
+ * only this worker writes the history, one change after another (see history.ts).
+ */
+
+import browser, { type Menus, type Runtime, type Tabs } from "webextension-polyfill";
+import {
+	DEFAULT_HOSTS,
+	registerCustomHosts,
+	registerDetectedHosts,
+	resolveApplicationForHost,
+} from "./button-contributions";
+import {
+	clearLaunchHistory,
+	findPreviousLaunch,
+	loadLaunchHistory,
+	recordLaunch,
+	recordRelaunch,
+	setLaunchPinned,
+	type LaunchRecord,
+} from "./history";
+import { hostMatchPattern, syncHostContentScripts } from "./hosts";
+import { renderStoredProfileLink, resolveLaunchLinks, type ProfileLink } from "./launch";
+import { isRepositoryContext } from "./page-context";
+import { launchWorkspace, WORKSPACE_ADAPTERS } from "./platforms";
+import {
+	isMessageOfType,
+	MESSAGE_TYPES,
+	type ElementPickedMessage,
+	type GetLaunchLinksMessage,
+	type ClearLaunchHistoryMessage,
+	type LaunchTabMessage,
+	type LaunchWorkspaceMessage,
+	type RecordLaunchMessage,
+	type RecordRelaunchMessage,
+	type ReportPageApplicationMessage,
+	type SetLaunchPinnedMessage,
+} from "./messages";
+import {
+	loadCustomHosts,
+	loadDetectedHosts,
+	loadPlatformTokens,
+	loadProfileSettings,
+	loadUrlSafetySettings,
+	orderProfilesByDefault,
+	saveDetectedHost,
+	savePickedElement,
+	STORAGE_KEYS,
+} from "./settings";
+import { askWorkspaceReuse, type ReuseChoice, type ReusePromptOptions } from "./reuse-prompt";
+import { showPageToast } from "./toast";
+import { findWorkspaceTab, focusTab, trackWorkspaceTab, untrackWorkspaceTab } from "./workspace-tabs";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Identifiers of the context menu entries. */
+const MENU_IDS = {
+	/** Opens a link in the primary profile. */
+	OPEN_LINK: "eons-open-link",
+	/** Parent entry of the per-profile submenu. */
+	OPEN_LINK_WITH: "eons-open-link-with",
+	/** Prefix of the per-profile entries; followed by the profile id. */
+	OPEN_LINK_PROFILE_PREFIX: "eons-open-link-profile:",
+} as const;
+
+/** Name of the keyboard shortcut command, as declared in the manifest. */
+const OPEN_WORKSPACE_COMMAND = "open-workspace";
+
+/** Toast shown when the shortcut is used on a page that isn't a repository. */
+const NOT_A_REPOSITORY_MESSAGE = "Eons Dev Launcher: this page isn't a repository on a supported host.";
+
+/** Storage keys whose changes require rebuilding the context menus. */
+const MENU_SETTINGS_KEYS: string[] = [
+	STORAGE_KEYS.PROFILES,
+	STORAGE_KEYS.DEFAULT_PROFILE_ID,
+	STORAGE_KEYS.CUSTOM_HOSTS,
+];
+
+// ============================================================================
+// Launch Resolution
+// ============================================================================
+
+/**
+ * Makes the user's self-managed hosts, and the applications pages showed on other hosts, known to
+ * host detection. The worker may be restarted at any time, so this runs before every resolution.
+ */
+async function loadHostRegistry(): Promise<void> {
+	registerCustomHosts(await loadCustomHosts());
+	registerDetectedHosts(await loadDetectedHosts());
+}
+
+/**
+ * Remembers the application a page showed, for detection without the page.
+ *
+ * @param message - The reported application.
+ * @param sender - The page's content script; the host is taken from its URL, not from the message.
+ */
+async function rememberPageApplication(message: ReportPageApplicationMessage, sender: Runtime.MessageSender): Promise<void> {
+	const url = sender.url ?? sender.tab?.url;
+	if (!url) return;
+	await saveDetectedHost(new URL(url).host, message.application);
+}
+
+/**
+ * Resolves the workspace URLs for a Git provider URL without access to the page.
+ *
+ * @param url - The page or link URL.
+ * @returns One link per profile (primary first), or null if the URL isn't on a supported host.
+ */
+async function resolveUrlLinks(url: string): Promise<ProfileLink[] | null> {
+	await loadHostRegistry();
+
+	let host: string;
+	try {
+		host = new URL(url).host;
+	} catch {
+		return null;
+	}
+
+	const application = resolveApplicationForHost(host);
+	return application ? resolveLaunchLinks(url, application) : null;
+}
+
+/**
+ * Resolves the workspace URLs for the page shown in a tab.
+ * Asks the tab's content script first and falls back to URL-only resolution if there is none.
+ *
+ * @param tab - The tab.
+ * @returns One link per profile (primary first), or null if the page isn't a repository page.
+ */
+async function resolveTabLinks(tab: Tabs.Tab): Promise<ProfileLink[] | null> {
+	if (tab.id !== undefined) {
+		try {
+			const message: GetLaunchLinksMessage = { type: MESSAGE_TYPES.GET_LAUNCH_LINKS };
+			return ((await browser.tabs.sendMessage(tab.id, message)) as ProfileLink[] | null) ?? null;
+		} catch {
+			// No content script in this tab
+		}
+	}
+
+	return tab.url ? resolveUrlLinks(tab.url) : null;
+}
+
+/**
+ * Shows a toast on the page of a tab, if the page can be scripted.
+ *
+ * @param tab - The tab (optional).
+ * @param message - The text to show.
+ */
+async function notifyTab(tab: Tabs.Tab | undefined, message: string): Promise<void> {
+	if (tab?.id === undefined) return;
+
+	try {
+		await browser.scripting.executeScript({
+			target: { tabId: tab.id },
+			func: showPageToast,
+			args: [message],
+		});
+	} catch {
+		// Browser-internal pages cannot be scripted
+	}
+}
+
+/**
+ * Launches a workspace through its profile's platform adapter. If the platform's API fails, the
+ * originating page is told why and the profile's rendered URL is used instead.
+ *
+ * @param link - The profile link to launch.
+ * @param tab - The tab the launch originated from (optional).
+ * @returns The URL of the workspace to open.
+ */
+async function resolveWorkspaceUrl(link: ProfileLink, tab?: Tabs.Tab): Promise<string> {
+	try {
+		const tokens = await loadPlatformTokens();
+		return await launchWorkspace(link, tokens[link.profile.id] ?? "", await loadUrlSafetySettings());
+	} catch (error) {
+		console.error(error);
+		const platform = WORKSPACE_ADAPTERS[link.profile.platform?.type ?? "url"].label;
+		const reason = error instanceof Error ? error.message : String(error);
+		await notifyTab(tab, `Eons Dev Launcher: launching through ${platform} failed (${reason}); opening the profile's URL instead.`);
+		return link.workspaceUrl;
+	}
+}
+
+/**
+ * Opens a workspace URL in a new tab next to the originating tab and remembers the tab.
+ *
+ * @param link - The profile link, with the URL to open.
+ * @param tab - The tab the launch originated from (optional).
+ */
+async function createWorkspaceTab(link: ProfileLink, tab?: Tabs.Tab): Promise<void> {
+	const created = await browser.tabs.create({
+		url: link.workspaceUrl,
+		index: tab ? tab.index + 1 : undefined,
+		openerTabId: tab?.id,
+	});
+	await trackWorkspaceTab(created, link);
+}
+
+/**
+ * Launches a new workspace and records the launch.
+ *
+ * @param link - The profile link to open.
+ * @param tab - The tab the launch originated from (optional).
+ */
+async function openNewWorkspace(link: ProfileLink, tab?: Tabs.Tab): Promise<void> {
+	const launched = { ...link, workspaceUrl: await resolveWorkspaceUrl(link, tab) };
+	await createWorkspaceTab(launched, tab);
+	await recordLaunch(launched);
+}
+
+/**
+ * Opens the workspace of a previous launch again, without launching it through the platform.
+ *
+ * @param link - The profile link being opened.
+ * @param record - The previous launch.
+ * @param tab - The tab the launch originated from (optional).
+ */
+async function resumeWorkspace(link: ProfileLink, record: LaunchRecord, tab?: Tabs.Tab): Promise<void> {
+	await createWorkspaceTab({ ...link, workspaceUrl: record.workspaceUrl }, tab);
+	await recordRelaunch(record);
+}
+
+/**
+ * Asks on the originating page whether to reuse the existing workspace.
+ * Where the page can't be scripted, the existing workspace is reused.
+ *
+ * @param tab - The tab the launch originated from (optional).
+ * @param options - The choices to offer.
+ * @returns The choice, or null if the user dismissed the question.
+ */
+async function askReuse(tab: Tabs.Tab | undefined, options: ReusePromptOptions): Promise<ReuseChoice | null> {
+	if (tab?.id !== undefined) {
+		try {
+			const [result] = await browser.scripting.executeScript({
+				target: { tabId: tab.id },
+				func: askWorkspaceReuse,
+				args: [options],
+			});
+			return (result?.result as ReuseChoice | null | undefined) ?? null;
+		} catch {
+			// Browser-internal pages cannot be scripted
+		}
+	}
+	return options.canSwitch ? "switch" : "resume";
+}
+
+/**
+ * Opens a workspace following the profile's reuse policy: launches a new one, or, if the repository
+ * and branch already have one, switches to its tab or resumes it, or asks which to do.
+ * A link whose URL couldn't be rendered opens nothing; the page is told why.
+ *
+ * @param link - The profile link to open.
+ * @param tab - The tab the launch originated from (optional).
+ * @param newWorkspace - Whether to open a new workspace regardless of the reuse policy.
+ */
+async function openWorkspace(link: ProfileLink, tab?: Tabs.Tab, newWorkspace = false): Promise<void> {
+	if (link.error) {
+		await notifyTab(tab, `Eons Dev Launcher: can't open ${link.profile.label}: ${link.error}`);
+		return;
+	}
+
+	const policy = newWorkspace ? "new" : (link.profile.reusePolicy ?? "new");
+	if (policy === "new") {
+		await openNewWorkspace(link, tab);
+		return;
+	}
+
+	const workspaceTab = await findWorkspaceTab(link);
+	const previous = await findPreviousLaunch(link);
+	if (!workspaceTab && !previous) {
+		await openNewWorkspace(link, tab);
+		return;
+	}
+
+	const choice =
+		policy === "ask"
+			? await askReuse(tab, {
+					profileLabel: link.profile.label,
+					canSwitch: workspaceTab !== null,
+					canResume: previous !== null,
+				})
+			: workspaceTab
+				? "switch"
+				: "resume";
+
+	if (choice === "switch" && workspaceTab) {
+		await focusTab(workspaceTab);
+	} else if (choice === "resume" && previous) {
+		await resumeWorkspace(link, previous, tab);
+	} else if (choice === "new") {
+		await openNewWorkspace(link, tab);
+	}
+}
+
+/**
+ * Launches a profile for a page, as asked by its content script. The profile, and with it the
+ * platform its API token is sent to, is looked up in the settings rather than taken from the message.
+ *
+ * @param message - The launch request.
+ * @param tab - The tab the launch originated from (optional).
+ */
+async function launchRequestedWorkspace(message: LaunchWorkspaceMessage, tab?: Tabs.Tab): Promise<void> {
+	const link = await renderStoredProfileLink(message.profileId, message.context, message.parameters);
+	if (!link) {
+		await notifyTab(tab, "Eons Dev Launcher: this profile no longer exists; reload the page.");
+		return;
+	}
+	await openWorkspace(link, tab, message.newWorkspace);
+}
+
+/**
+ * Records a launch a page opened itself, rendering the link from the stored profile like a launch.
+ *
+ * @param message - The launched link.
+ */
+async function recordRequestedLaunch(message: RecordLaunchMessage): Promise<void> {
+	const link = await renderStoredProfileLink(message.profileId, message.context, message.parameters);
+	if (link && !link.error) {
+		await recordLaunch(link);
+	}
+}
+
+/**
+ * Records that the popup re-opened a recorded launch.
+ *
+ * @param recordId - The id of the launch.
+ */
+async function recordRequestedRelaunch(recordId: string): Promise<void> {
+	const record = (await loadLaunchHistory()).find((candidate) => candidate.id === recordId);
+	if (record) {
+		await recordRelaunch(record);
+	}
+}
+
+/**
+ * Opens the repository shown in a tab in the primary profile.
+ *
+ * @param tab - The tab.
+ * @returns True if a workspace was opened, false if the page isn't a repository page.
+ */
+async function launchTab(tab: Tabs.Tab): Promise<boolean> {
+	const links = await resolveTabLinks(tab);
+	if (!links || links.length === 0 || !isRepositoryContext(links[0].context)) return false;
+
+	await openWorkspace(links[0], tab);
+	return true;
+}
+
+/**
+ * Launches the active tab for the keyboard shortcut, or tells the user why nothing happened.
+ *
+ * @param tab - The active tab.
+ */
+async function handleOpenWorkspaceCommand(tab: Tabs.Tab): Promise<void> {
+	if (await launchTab(tab)) return;
+	await notifyTab(tab, NOT_A_REPOSITORY_MESSAGE);
+}
+
+// ============================================================================
+// Context Menus
+// ============================================================================
+
+/**
+ * Recreates the link context menus for the current hosts and profiles.
+ */
+async function rebuildContextMenus(): Promise<void> {
+	await browser.contextMenus.removeAll();
+
+	const hosts = await loadCustomHosts();
+	registerCustomHosts(hosts);
+
+	// Only offer the entries on links that have at least an owner and a repository segment
+	const targetUrlPatterns = [...Object.keys(DEFAULT_HOSTS), ...hosts.map(({ host }) => host)].map(
+		(host) => hostMatchPattern(host).replace(/\/\*$/, "/*/*")
+	);
+
+	browser.contextMenus.create({
+		id: MENU_IDS.OPEN_LINK,
+		title: "Open in workspace",
+		contexts: ["link"],
+		targetUrlPatterns,
+	});
+
+	const profiles = orderProfilesByDefault(await loadProfileSettings());
+	if (profiles.length < 2) return;
+
+	browser.contextMenus.create({
+		id: MENU_IDS.OPEN_LINK_WITH,
+		title: "Open in workspace with profile…",
+		contexts: ["link"],
+		targetUrlPatterns,
+	});
+
+	for (const profile of profiles) {
+		browser.contextMenus.create({
+			id: `${MENU_IDS.OPEN_LINK_PROFILE_PREFIX}${profile.id}`,
+			parentId: MENU_IDS.OPEN_LINK_WITH,
+			title: profile.label,
+			contexts: ["link"],
+		});
+	}
+}
+
+/** The latest context menu rebuild; the next one starts after it, so their entries never interleave. */
+let menuRebuild: Promise<void> = Promise.resolve();
+
+/**
+ * Rebuilds the link context menus once any rebuild in progress has finished.
+ *
+ * @returns A promise settling when this rebuild has finished.
+ */
+function queueContextMenuRebuild(): Promise<void> {
+	menuRebuild = menuRebuild.then(rebuildContextMenus, rebuildContextMenus);
+	return menuRebuild;
+}
+
+/**
+ * Launches the link a context menu entry was invoked on.
+ *
+ * @param info - The clicked menu entry and link.
+ * @param tab - The tab the link was clicked in.
+ */
+async function handleContextMenuClick(info: Menus.OnClickData, tab?: Tabs.Tab): Promise<void> {
+	const menuItemId = String(info.menuItemId);
+	if (!info.linkUrl || !menuItemId.startsWith(MENU_IDS.OPEN_LINK)) return;
+
+	const links = await resolveUrlLinks(info.linkUrl);
+	if (!links || links.length === 0 || !isRepositoryContext(links[0].context)) return;
+
+	const profileId = menuItemId.startsWith(MENU_IDS.OPEN_LINK_PROFILE_PREFIX)
+		? menuItemId.slice(MENU_IDS.OPEN_LINK_PROFILE_PREFIX.length)
+		: undefined;
+	const link = links.find((candidate) => candidate.profile.id === profileId) ?? links[0];
+
+	await openWorkspace(link, tab);
+}
+
+// ============================================================================
+// Initialization
+// ============================================================================
+
+/**
+ * Sets up menus and dynamically registered content scripts.
+ */
+async function initialize(): Promise<void> {
+	await queueContextMenuRebuild();
+	await syncHostContentScripts(await loadCustomHosts());
+}
+
+browser.runtime.onInstalled.addListener(() => {
+	initialize().catch(console.error);
+});
+
+browser.runtime.onStartup.addListener(() => {
+	initialize().catch(console.error);
+});
+
+browser.storage.onChanged.addListener((changes, areaName) => {
+	const isSettingsArea = areaName === "sync" || areaName === "managed";
+	if (isSettingsArea && MENU_SETTINGS_KEYS.some((key) => key in changes)) {
+		queueContextMenuRebuild().catch(console.error);
+	}
+});
+
+browser.contextMenus.onClicked.addListener((info, tab) => {
+	handleContextMenuClick(info, tab).catch(console.error);
+});
+
+browser.commands.onCommand.addListener((command) => {
+	if (command !== OPEN_WORKSPACE_COMMAND) return;
+
+	browser.tabs
+		.query({ active: true, currentWindow: true })
+		.then(([tab]) => (tab ? handleOpenWorkspaceCommand(tab) : undefined))
+		.catch(console.error);
+});
+
+browser.tabs.onRemoved.addListener((tabId) => {
+	untrackWorkspaceTab(tabId).catch(console.error);
+});
+
+browser.runtime.onMessage.addListener((message: unknown, sender: Runtime.MessageSender) => {
+	if (isMessageOfType<LaunchTabMessage>(message, MESSAGE_TYPES.LAUNCH_TAB)) {
+		return browser.tabs.get(message.tabId).then(launchTab);
+	}
+	if (isMessageOfType<LaunchWorkspaceMessage>(message, MESSAGE_TYPES.LAUNCH_WORKSPACE)) {
+		return launchRequestedWorkspace(message, sender.tab);
+	}
+	if (isMessageOfType<RecordLaunchMessage>(message, MESSAGE_TYPES.RECORD_LAUNCH)) {
+		return recordRequestedLaunch(message);
+	}
+	if (isMessageOfType<RecordRelaunchMessage>(message, MESSAGE_TYPES.RECORD_RELAUNCH)) {
+		return recordRequestedRelaunch(message.recordId);
+	}
+	if (isMessageOfType<SetLaunchPinnedMessage>(message, MESSAGE_TYPES.SET_LAUNCH_PINNED)) {
+		return setLaunchPinned(message.recordId, message.pinned);
+	}
+	if (isMessageOfType<ClearLaunchHistoryMessage>(message, MESSAGE_TYPES.CLEAR_LAUNCH_HISTORY)) {
+		return clearLaunchHistory();
+	}
+	if (isMessageOfType<ReportPageApplicationMessage>(message, MESSAGE_TYPES.REPORT_PAGE_APPLICATION)) {
+		return rememberPageApplication(message, sender);
+	}
+	// Content scripts can't open the Options page; it takes the picked element from storage
+	if (isMessageOfType<ElementPickedMessage>(message, MESSAGE_TYPES.ELEMENT_PICKED)) {
+		return savePickedElement(message.picked).then(() => browser.runtime.openOptionsPage());
+	}
+	return undefined;
+});
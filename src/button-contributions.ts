@@ -4,7 +4,16 @@
  * Original license: Apache-2.0
  */
 
-export type SupportedApplication = "github" | "gitlab" | "bitbucket-server" | "bitbucket" | "azure-devops" | "eons-infrastructure";
+import type { CustomContribution } from "./settings";
+
+export type SupportedApplication =
+	| "github"
+	| "gitlab"
+	| "bitbucket-server"
+	| "bitbucket"
+	| "azure-devops"
+	| "gitea"
+	| "eons-infrastructure";
 
 const resolveMetaAppName = (head: HTMLHeadElement): string | undefined => {
 	const metaApplication = head.querySelector("meta[name=application-name]");
@@ -19,30 +28,197 @@ const resolveMetaAppName = (head: HTMLHeadElement): string | undefined => {
 	return undefined;
 };
 
-// export const DEFAULT_HOSTS = ["github.com", "gitlab.com", "bitbucket.org", "dev.azure.com", "git.infrastructure.tech"];
-export const DEFAULT_HOSTS = [];
-export const isGitlabHost = () => /^git(?:lab)?\..*$/.test(window.location.host);
+/**
+ * Keywords that Gitea and Forgejo advertise by default in `<meta name="keywords">`.
+ * Instances usually rename the application, so this is more reliable than the application name.
+ */
+const GITEA_META_KEYWORDS = ["gitea", "forgejo"];
+
+const isGiteaHead = (head: HTMLHeadElement): boolean => {
+	const keywords = head.querySelector("meta[name=keywords]")?.getAttribute("content") ?? "";
+	return keywords
+		.toLowerCase()
+		.split(",")
+		.some((keyword) => GITEA_META_KEYWORDS.includes(keyword.trim()));
+};
 
 /**
- * Provides a fast check to see if the current URL is on a supported site.
+ * Public hosts that are supported out of the box, and the application each of them runs.
  */
-export const isSiteSuitable = (): boolean => {
-	const isWhitelistedHost = DEFAULT_HOSTS.some((host) => location.host === host);
-	if (isWhitelistedHost) {
-		return true;
+export const DEFAULT_HOSTS: Record<string, SupportedApplication> = {
+	"github.com": "github",
+	"gitlab.com": "gitlab",
+	"bitbucket.org": "bitbucket",
+	"dev.azure.com": "azure-devops",
+};
+
+/**
+ * Self-managed hosts configured by the user in the Options page, keyed by host name.
+ */
+const customHosts = new Map<string, SupportedApplication>();
+
+/**
+ * Registers self-managed hosts so that they are detected like the public hosts.
+ */
+export const registerCustomHosts = (hosts: { host: string; provider: SupportedApplication }[]) => {
+	customHosts.clear();
+	hosts.forEach(({ host, provider }) => customHosts.set(host, provider));
+};
+
+/**
+ * Applications that pages have shown to run on hosts that aren't configured, keyed by host name.
+ */
+const detectedHosts = new Map<string, SupportedApplication>();
+
+/**
+ * Registers the applications pages have shown to run on hosts that aren't configured (see
+ * `resolveDetectedApplication`), so that detection without a page follows them, e.g. for a Gitea
+ * instance on a `git.` host.
+ */
+export const registerDetectedHosts = (hosts: Record<string, SupportedApplication>) => {
+	detectedHosts.clear();
+	Object.entries(hosts).forEach(([host, application]) => detectedHosts.set(host, application));
+};
+
+/**
+ * Maps the application names advertised in a page's meta tags to the supported applications.
+ */
+const META_APPLICATIONS: [string, SupportedApplication][] = [
+	["GitHub", "github"],
+	["GitLab", "gitlab"],
+	["Bitbucket", "bitbucket-server"],
+	["Gitea", "gitea"],
+	["Forgejo", "gitea"],
+];
+
+/**
+ * Host names following the `git.`/`gitlab.` convention are assumed to run GitLab.
+ */
+const GITLAB_HOST_CONVENTION = /^git(?:lab)?\..*$/;
+
+/**
+ * Resolves which application a host is configured or known to run, without any guessing.
+ */
+const resolveKnownApplication = (host: string): SupportedApplication | undefined => {
+	return customHosts.get(host) ?? DEFAULT_HOSTS[host];
+};
+
+/**
+ * Resolves which application a host runs without a page, e.g. for links in a context menu: as
+ * configured, as its pages have shown (see `registerDetectedHosts`), or from the host name.
+ */
+export const resolveApplicationForHost = (host: string): SupportedApplication | undefined => {
+	const known = resolveKnownApplication(host) ?? detectedHosts.get(host);
+	if (known) {
+		return known;
 	}
 
-	if (isGitlabHost()) {
-		return true;
+	if (GITLAB_HOST_CONVENTION.test(host)) {
+		return "gitlab";
 	}
 
-	const appName = resolveMetaAppName(document.head);
-	if (!appName) {
-		return false;
+	return undefined;
+};
+
+/**
+ * Resolves which application the current page belongs to, if any.
+ *
+ * User-configured hosts take precedence over the built-in hosts, followed by what the page's meta
+ * tags advertise (Gitea/Forgejo keywords, then the application name) and finally the `git.`/`gitlab.`
+ * host name convention, so that e.g. a Gitea instance on a `git.` host is not mistaken for GitLab.
+ */
+export const resolveApplication = (): SupportedApplication | undefined => {
+	const known = resolveKnownApplication(window.location.host);
+	if (known) {
+		return known;
 	}
-	const allowedApps = ["GitHub", "GitLab", "Bitbucket"];
 
-	return allowedApps.some((allowedApp) => appName.includes(allowedApp));
+	if (isGiteaHead(document.head)) {
+		return "gitea";
+	}
+
+	const appName = resolveMetaAppName(document.head);
+	const advertised = appName
+		? META_APPLICATIONS.find(([name]) => appName.includes(name))?.[1]
+		: undefined;
+
+	return advertised ?? resolveApplicationForHost(window.location.host);
+};
+
+/**
+ * Resolves which application the current page shows on a host that isn't configured, for detection
+ * without a page to remember. Undefined on configured and built-in hosts, whose application is known.
+ */
+export const resolveDetectedApplication = (): SupportedApplication | undefined => {
+	return resolveKnownApplication(window.location.host) ? undefined : resolveApplication();
+};
+
+export const isGitlabHost = () => resolveApplication() === "gitlab";
+
+export const isGiteaHost = () => resolveApplication() === "gitea";
+
+/**
+ * Gitea file views share their URL scheme with directory listings (`/src/branch/<name>/<path>`);
+ * only file views have a "Raw" link in the file header.
+ */
+const isGiteaFileView = () => isGiteaHost() && document.querySelector(".file-header a[href*='/raw/']") !== null;
+
+/**
+ * Provides a fast check to see if the current URL is on a supported site.
+ */
+export const isSiteSuitable = (): boolean => {
+	return resolveApplication() !== undefined;
+};
+
+/**
+ * The file a per-file button opens, found from the element the button is placed into.
+ */
+export interface FileTarget {
+	/**
+	 * The repository-relative file path, where the page states it (e.g. a diff header's `data-path`).
+	 */
+	filePath?: string;
+
+	/**
+	 * A link to the file's page, to derive the path from where the page doesn't state it (e.g. a tree listing row).
+	 */
+	fileUrl?: string;
+
+	/**
+	 * The file's diff. While the pointer is over one of its lines, a button opening the file at that line is shown.
+	 */
+	diff?: HTMLElement;
+}
+
+/**
+ * A line of a diff: its number in the new version of the file, and the cell to show the line button in.
+ */
+export interface DiffLine {
+	line: string;
+	cell: HTMLElement;
+}
+
+/**
+ * Reads the link of a file row in a tree listing, skipping directories and submodules.
+ */
+const fileRowTarget = (row: Element | null, fileLinkSelector: string): FileTarget | null => {
+	const link = row?.querySelector<HTMLAnchorElement>(fileLinkSelector);
+	return link ? { fileUrl: link.href } : null;
+};
+
+/**
+ * Finds the line number cell of a diff line, preferring the new version's number (the last one in the row).
+ */
+const diffLineAt = (
+	element: Element,
+	rowSelector: string,
+	numberSelector: string,
+	numberAttribute: string,
+): DiffLine | null => {
+	const cells = element.closest(rowSelector)?.querySelectorAll<HTMLElement>(numberSelector);
+	const cell = cells?.[cells.length - 1];
+	const line = cell?.getAttribute(numberAttribute);
+	return cell && line ? { line, cell } : null;
 };
 
 export interface ButtonContributionParams {
@@ -52,7 +228,8 @@ export interface ButtonContributionParams {
 	id: string;
 
 	/**
-	 *
+	 * Pages the contribution places its button on. The tests check the contribution against their
+	 * saved copies in test/fixtures (refreshed with `pnpm run fixtures:refresh`).
 	 */
 	exampleUrls: string[];
 
@@ -80,7 +257,7 @@ export interface ButtonContributionParams {
 	 * </selector>
 	 */
 	containerElement: {
-		type: "div" | "li";
+		type: "div" | "li" | "span";
 		props: {
 			[key: string]: string;
 		};
@@ -96,6 +273,16 @@ export interface ButtonContributionParams {
 	 */
 	application: SupportedApplication;
 
+	/**
+	 * How the button relates to the page's other buttons. Defaults to "exclusive".
+	 *
+	 * - "exclusive": the page's main button. Contributions are tried in order and only the first exclusive one
+	 *   that can be placed gets a button.
+	 * - "additive": an extra button, placed in addition to the main one, into every element matching the selector
+	 *   (e.g. one per file of a diff). `insertBefore` is then looked up within each matching element.
+	 */
+	placement?: "exclusive" | "additive";
+
 	/**
 	 * Additional class names that should be added to the elements.
 	 */
@@ -114,6 +301,19 @@ export interface ButtonContributionParams {
 	 */
 	manipulations?: { element: string; remove?: string; add?: string; style?: Partial<CSSStyleDeclaration> }[];
 
+	/**
+	 * Makes this a per-file contribution: finds the file the matched element belongs to, or null to skip the element.
+	 *
+	 * Per-file contributions are additive. They place a small icon button that opens the page's primary profile with
+	 * `filePath` (and, from the diff line button, `lineRange`) in the template context.
+	 */
+	fileTarget?: (element: HTMLElement) => FileTarget | null;
+
+	/**
+	 * For per-file contributions with a diff: finds the diff line an element under the pointer belongs to.
+	 */
+	diffLine?: (element: Element) => DiffLine | null;
+
 	/**
 	 * A function that can be used to transform the URL that should be opened when the Gitpod button is clicked.
 	 * @returns The transformed URL.
@@ -121,8 +321,27 @@ export interface ButtonContributionParams {
 	urlTransformer?: (originalURL: string) => string;
 }
 
+/**
+ * Checks if the current page matches a contribution's criteria.
+ * Contributions without criteria match every page and rely on their selector alone.
+ */
+export const matchesContributionCriteria = (
+	match: ButtonContributionParams["match"],
+	pageUrl: string,
+): boolean => {
+	if (match === undefined) {
+		return true;
+	}
+
+	if (typeof match === "function") {
+		return match();
+	}
+
+	return match.test(pageUrl);
+};
+
 function createElement(
-	type: "div" | "li",
+	type: "div" | "li" | "span",
 	props: {
 		[key: string]: string;
 	},
@@ -152,7 +371,7 @@ export const buttonContributions: ButtonContributionParams[] = [
 		],
 		urlTransformer(originalUrl) {
 			const url = new URL(originalUrl);
-			if (url.pathname.includes("version=GB")) {
+			if (url.searchParams.get("version")?.startsWith("GB")) {
 				return originalUrl;
 			}
 			// version=GBdevelop
@@ -239,6 +458,40 @@ export const buttonContributions: ButtonContributionParams[] = [
 			},
 		],
 	},
+	{
+		id: "gl-tree-file",
+		exampleUrls: ["https://gitlab.com/svenefftinge/browser-extension-test/-/tree/my-branch"],
+		match: () => {
+			return isGitlabHost();
+		},
+		// the name cell of each row in the repository file listing
+		selector: "table.tree-table tr.tree-item td.tree-item-file-name",
+		containerElement: createElement("span", {}),
+		application: "gitlab",
+		placement: "additive",
+		fileTarget: (cell) => fileRowTarget(cell, "a[href*='/-/blob/']"),
+	},
+	{
+		id: "gl-diff-file",
+		exampleUrls: ["https://gitlab.com/svenefftinge/browser-extension-test/-/merge_requests/1/diffs"],
+		match: () => {
+			return isGitlabHost() && window.location.pathname.includes("/-/merge_requests/");
+		},
+		// the header of each file in the "Changes" tab
+		selector: ".diff-file .file-header-content",
+		containerElement: createElement("span", {}),
+		application: "gitlab",
+		placement: "additive",
+		fileTarget: (header) => {
+			const file = header.closest<HTMLElement>(".diff-file");
+			const filePath =
+				file?.dataset.path ?? header.querySelector(".file-title-name")?.getAttribute("title")?.trim();
+			return filePath
+				? { filePath, diff: file?.querySelector<HTMLElement>(".diff-content") ?? undefined }
+				: null;
+		},
+		diffLine: (element) => diffLineAt(element, ".line_holder", ".diff-line-num[data-linenumber]", "data-linenumber"),
+	},
 	{
 		id: "gl-merge-request",
 		exampleUrls: ["https://gitlab.com/svenefftinge/browser-extension-test/-/merge_requests/1"],
@@ -353,6 +606,32 @@ export const buttonContributions: ButtonContributionParams[] = [
 		match: /\/pull\//,
 		application: "github",
 	},
+	{
+		id: "gh-pull-sticky",
+		exampleUrls: ["https://github.com/svenefftinge/browser-extension-test/pull/2"],
+		// the condensed header shown once the main header scrolls out of view
+		selector: "#partial-discussion-header .gh-header-sticky .sticky-content > div",
+		containerElement: createElement("div", {
+			marginLeft: "8px",
+		}),
+		match: /\/pull\/\d+/,
+		application: "github",
+		placement: "additive",
+		additionalClassNames: ["medium"],
+	},
+	{
+		id: "gh-pull-file-menu",
+		exampleUrls: ["https://github.com/svenefftinge/browser-extension-test/pull/2/files"],
+		// the "…" menu of each file in the "Files changed" tab
+		selector: ".file-header .js-file-header-dropdown details-menu.dropdown-menu",
+		containerElement: createElement("div", {
+			padding: "4px 8px",
+		}),
+		match: /\/pull\/\d+\/files/,
+		application: "github",
+		placement: "additive",
+		additionalClassNames: ["secondary", "medium"],
+	},
 	{
 		id: "gh-file",
 		exampleUrls: ["https://github.com/svenefftinge/browser-extension-test/blob/my-branch/README.md"],
@@ -363,6 +642,34 @@ export const buttonContributions: ButtonContributionParams[] = [
 		application: "github",
 		additionalClassNames: ["medium"],
 	},
+	{
+		id: "gh-tree-file",
+		exampleUrls: ["https://github.com/svenefftinge/browser-extension-test/tree/my-branch"],
+		// the name cell of each row in the repository file listing
+		selector: "table[aria-labelledby='folders-and-files'] tr.react-directory-row .react-directory-filename-column",
+		containerElement: createElement("span", {}),
+		application: "github",
+		placement: "additive",
+		fileTarget: (cell) => fileRowTarget(cell.closest("tr"), "a[href*='/blob/']"),
+	},
+	{
+		id: "gh-diff-file",
+		exampleUrls: ["https://github.com/svenefftinge/browser-extension-test/pull/2/files"],
+		match: /\/(pull\/\d+\/files|commit\/[0-9a-f]+|compare\/)/,
+		// the file name area of each file header in the "Files changed" tab, commits and comparisons
+		selector: ".file-header[data-path] .file-info",
+		containerElement: createElement("span", {}),
+		application: "github",
+		placement: "additive",
+		fileTarget: (info) => {
+			const header = info.closest<HTMLElement>(".file-header[data-path]");
+			const filePath = header?.dataset.path;
+			return filePath
+				? { filePath, diff: header?.closest(".file")?.querySelector<HTMLElement>(".js-file-content") ?? undefined }
+				: null;
+		},
+		diffLine: (element) => diffLineAt(element, "tr", "td.blob-num[data-line-number]", "data-line-number"),
+	},
 	{
 		id: "gh-empty-repo",
 		exampleUrls: [
@@ -389,6 +696,59 @@ export const buttonContributions: ButtonContributionParams[] = [
 			},
 		],
 	},
+	// Gitea / Forgejo
+	{
+		id: "gitea-file",
+		exampleUrls: ["https://gitea.com/gitea/tea/src/branch/main/README.md"],
+		match: () => {
+			return isGiteaFileView();
+		},
+		selector: ".file-header .file-header-right .ui.buttons",
+		containerElement: createElement("div", { marginLeft: "8px" }),
+		application: "gitea",
+	},
+	{
+		id: "gitea-repo", // also taking care of branch, tag and commit trees
+		exampleUrls: [
+			"https://gitea.com/gitea/tea",
+			"https://gitea.com/gitea/tea/src/branch/main",
+		],
+		// file views render the same button row, but get their own button above
+		match: () => {
+			return isGiteaHost() && !isGiteaFileView();
+		},
+		selector: ".repo-button-row .repo-button-row-right",
+		containerElement: createElement("div", {}),
+		application: "gitea",
+	},
+	{
+		id: "gitea-commit",
+		exampleUrls: [
+			// needs a commit of a public repository, e.g. on gitea.com/gitea/tea, with its page saved by
+			// `pnpm run fixtures:refresh gitea-commit`
+		],
+		match: /\/commit\/[0-9a-f]+/,
+		selector: ".commit-header .commit-header-buttons",
+		containerElement: createElement("div", {}),
+		application: "gitea",
+	},
+	{
+		id: "gitea-pull",
+		exampleUrls: ["https://gitea.com/gitea/tea/pulls/1"],
+		match: /\/pulls\/\d+/,
+		selector: ".issue-title-header .issue-title-buttons",
+		containerElement: createElement("div", {}),
+		application: "gitea",
+	},
+	{
+		id: "gitea-issue",
+		exampleUrls: ["https://gitea.com/gitea/tea/issues/1"],
+		match: /\/issues\/\d+/,
+		selector: ".issue-title-header .issue-title-buttons",
+		containerElement: createElement("div", {}),
+		application: "gitea",
+	},
+
 	// Bitbucket Server
 	{
 		id: "bbs-repo",
@@ -471,3 +831,71 @@ export const buttonContributions: ButtonContributionParams[] = [
 		application: "bitbucket",
 	},
 ];
+
+/**
+ * Turns a contribution defined in the Options page into button contribution params, on top of the
+ * built-in contribution it overrides, if any. Returns undefined if it can't be used (an invalid
+ * match regex, or a new contribution without a selector).
+ */
+const toButtonContribution = (
+	custom: CustomContribution,
+	builtIn: ButtonContributionParams | undefined,
+): ButtonContributionParams | undefined => {
+	let match: RegExp | undefined;
+	try {
+		match = custom.match ? new RegExp(custom.match) : undefined;
+	} catch {
+		return undefined;
+	}
+
+	const selector = custom.selector || builtIn?.selector;
+	if (!selector) {
+		return undefined;
+	}
+
+	return {
+		...builtIn,
+		id: custom.id,
+		exampleUrls: builtIn?.exampleUrls ?? [],
+		match: match ?? builtIn?.match,
+		selector,
+		insertBefore: custom.insertBefore || builtIn?.insertBefore,
+		containerElement: custom.containerType
+			? createElement(custom.containerType, custom.containerProps ?? {})
+			: builtIn?.containerElement ?? createElement("div", {}),
+		application: custom.application,
+	};
+};
+
+/**
+ * The built-in contributions merged with the user's, rebuilt whenever the user's are registered.
+ */
+let activeContributions: ButtonContributionParams[] = buttonContributions;
+
+/**
+ * Registers the contributions defined in the Options page. Overrides replace the built-in contribution
+ * with the same id in place; new contributions come first, so their buttons win over the built-ins.
+ */
+export const registerCustomContributions = (contributions: CustomContribution[]) => {
+	const overrides = new Map(contributions.map((custom) => [custom.id, custom]));
+	const builtInIds = new Set(buttonContributions.map(({ id }) => id));
+
+	const added = contributions
+		.filter((custom) => !builtInIds.has(custom.id))
+		.map((custom) => toButtonContribution(custom, undefined));
+	const builtIns = buttonContributions.map((builtIn) => {
+		const custom = overrides.get(builtIn.id);
+		return custom ? toButtonContribution(custom, builtIn) ?? builtIn : builtIn;
+	});
+
+	activeContributions = [...added, ...builtIns].filter(
+		(contribution): contribution is ButtonContributionParams => contribution !== undefined,
+	);
+};
+
+/**
+ * Returns the button contributions in effect: the built-ins, with the user's contributions registered.
+ */
+export const getButtonContributions = (): ButtonContributionParams[] => {
+	return activeContributions;
+};
@@ -2,32 +2,76 @@
  * Injects an "Open in Eons Workspace" button into supported Git providers (GitHub, GitLab, etc.).
  * The button links the current repository URL to a workspace URL rendered using Liquid.js templating.
  *
- * This script runs automatically when pages load and when the DOM changes (for single-page apps).
- * It prevents duplicate injections, waits for stored configuration, and avoids race conditions.
+ * This script runs automatically when pages load and on client-side navigation (for single-page apps);
+ * see injection-scheduler.ts for when injection runs. It prevents duplicate injections, waits for
+ * stored configuration, and avoids race conditions.
  */
 
 import browser from "webextension-polyfill";
-import { Liquid } from "liquidjs";
-import { buttonContributions, isSiteSuitable } from "./button-contributions";
+import {
+	getButtonContributions,
+	isSiteSuitable,
+	matchesContributionCriteria,
+	registerCustomContributions,
+	registerCustomHosts,
+	resolveApplication,
+	resolveDetectedApplication,
+	type ButtonContributionParams,
+	type FileTarget,
+	type SupportedApplication,
+} from "./button-contributions";
+import { queryElement, queryElements, waitForCondition } from "./dom";
+import { buildSelector, pickElement } from "./element-picker";
+import { startInjectionScheduler } from "./injection-scheduler";
+import { renderProfileLink, resolveLaunchLinks, type ProfileLink } from "./launch";
+import {
+	isMessageOfType,
+	MESSAGE_TYPES,
+	type ElementPickedMessage,
+	type GetInjectionStatsMessage,
+	type GetLaunchLinksMessage,
+	type LaunchWorkspaceMessage,
+	type ProfileLinkRequest,
+	type RecordLaunchMessage,
+	type ReportPageApplicationMessage,
+	type StartElementPickerMessage,
+} from "./messages";
+import { extractPageContext, type PageContext, type PageRef, type PullRequestRefs } from "./page-context";
+import { askLaunchParameters } from "./parameter-form";
+import { repositoryKey, resolveParameterValues } from "./parameters";
+import { usesPlatformApi } from "./platforms";
+import type { PageResolvers } from "./repo-url";
+import {
+	DEFAULT_BUTTON_APPEARANCE,
+	DEFAULT_URL_SAFETY,
+	loadButtonAppearance,
+	loadCustomContributions,
+	loadCustomHosts,
+	loadLastParameterValues,
+	loadUrlSafetySettings,
+	saveLastParameterValues,
+	type WorkspaceProfile,
+} from "./settings";
+import { renderTemplate } from "./template";
+import { isDarkTheme } from "./theme";
+import { showPageToast } from "./toast";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-/** Default workspace URL template used when no custom template is configured. */
-const DEFAULT_URL_TEMPLATE =
-	"https://workspace.infrastructure.tech/#/cast/dev?kasm_url={{ repoUrl }}";
-
 /** Configuration values for timing and element detection. */
 const CONFIG = {
 	/** Maximum time to wait for GitLab branch detection (milliseconds). */
 	GITLAB_BRANCH_DETECT_MAX_WAIT_MS: 2000,
-	/** Polling interval for GitLab branch detection (milliseconds). */
-	GITLAB_BRANCH_DETECT_INTERVAL_MS: 200,
-	/** Debounce delay for mutation observer (milliseconds). */
+	/** Debounce delay for mutation observers (milliseconds). */
 	MUTATION_DEBOUNCE_MS: 300,
 	/** ID prefix for injected buttons. */
 	BUTTON_ID_PREFIX: "eons-open-btn-",
+	/** Class toggled on a button container while its profile menu is open. */
+	MENU_OPEN_CLASS: "eons-menu-open",
+	/** Class of launch anchors whose workspace URL couldn't be rendered. */
+	ERROR_CLASS: "eons-error",
 } as const;
 
 /** CSS selectors for GitLab elements. */
@@ -35,132 +79,23 @@ const GITLAB_SELECTORS = {
 	REF_NAME: ".ref-name",
 	REF_CONTAINER: ".ref-container[href*='/-/tree/']",
 	MR_DATA_NODE: "#js-vue-mr-discussions",
+	/** The page content, which the merge request widgets render into. */
+	CONTENT: "#content-body",
+	/** Mount points of the ref switcher, carrying the ref and "heads"/"tags" as data attributes. */
+	REF_SWITCHER: "#js-tree-ref-switcher[data-ref], .js-project-refs-dropdown[data-ref]",
 } as const;
 
-// ============================================================================
-// Configuration & Template Management
-// ============================================================================
-
-/** Liquid.js engine used for rendering workspace URLs from templates. */
-const liquid = new Liquid();
-
-/**
- * Retrieves the workspace URL template from browser storage.
- * Falls back to a default template if no custom value exists or storage access fails.
- *
- * @returns The workspace URL template string.
- */
-async function getBaseUrlTemplate(): Promise<string> {
-	try {
-		const res = await browser.storage.sync.get("urlTemplate");
-		return res.urlTemplate || DEFAULT_URL_TEMPLATE;
-	} catch {
-		return DEFAULT_URL_TEMPLATE;
-	}
-}
-
-/**
- * Renders the workspace URL using Liquid.js templating.
- *
- * @param template - The Liquid template string (e.g. "{{ repoUrl }}").
- * @param repoUrl - The normalized repository URL to inject into the template.
- * @param branchName - The branch name extracted from the URL (optional).
- * @returns The fully rendered workspace URL.
- */
-async function renderWorkspaceUrl(
-	template: string,
-	repoUrl: string,
-	branchName: string | null = null
-): Promise<string> {
-	try {
-		const templateData: { repoUrl: string; branchName?: string } = { repoUrl };
-		if (branchName) {
-			templateData.branchName = branchName;
-		}
-		return await liquid.parseAndRender(template, templateData);
-	} catch {
-		return `https://workspace.infrastructure.tech/#/cast/dev?kasm_url=${encodeURIComponent(
-			repoUrl
-		)}`;
-	}
-}
-
-// ============================================================================
-// DOM Query Utilities
-// ============================================================================
-
-/**
- * Queries for an element using either a CSS selector or XPath expression.
- * XPath selectors must be prefixed with "xpath:".
- *
- * @param selector - CSS selector or XPath expression (prefixed with "xpath:").
- * @returns The matching element, or null if not found.
- */
-function queryElement(selector: string): HTMLElement | null {
-	if (selector.startsWith("xpath:")) {
-		const xpath = selector.replace("xpath:", "");
-		const result = document.evaluate(
-			xpath,
-			document,
-			null,
-			XPathResult.FIRST_ORDERED_NODE_TYPE,
-			null
-		);
-		return result.singleNodeValue as HTMLElement | null;
-	}
-	return document.querySelector<HTMLElement>(selector);
-}
-
-/**
- * Polls for a condition to become true within a specified time window.
- *
- * @param condition - Function that returns a truthy value when the condition is met.
- * @param maxWaitMs - Maximum time to wait (milliseconds).
- * @param intervalMs - Polling interval (milliseconds).
- * @returns The result of the condition function, or null if timeout occurs.
- */
-async function pollForCondition<T>(
-	condition: () => T | null | undefined,
-	maxWaitMs: number,
-	intervalMs: number
-): Promise<T | null> {
-	const startTime = Date.now();
-
-	while (Date.now() - startTime < maxWaitMs) {
-		const result = condition();
-		if (result) return result;
-		await new Promise((resolve) => setTimeout(resolve, intervalMs));
-	}
-
-	return null;
-}
-
-// ============================================================================
-// Branch Name Extraction
-// ============================================================================
-
-/**
- * Extracts the branch name from the current URL path.
- * Works for both GitHub and GitLab branch URLs.
- *
- * @param url - The current URL to extract the branch from.
- * @returns The branch name if found, otherwise null.
- */
-function extractBranchFromUrl(url: string): string | null {
-	// GitHub: /tree/branch-name
-	const githubMatch = url.match(/\/tree\/([^/]+)/);
-	if (githubMatch) {
-		return decodeURIComponent(githubMatch[1]);
-	}
-
-	// GitLab: /-/tree/branch-name
-	const gitlabMatch = url.match(/\/-\/tree\/([^/]+)/);
-	if (gitlabMatch) {
-		return decodeURIComponent(gitlabMatch[1]);
-	}
-
-	return null;
-}
+/** CSS selectors for GitHub elements. */
+const GITHUB_SELECTORS = {
+	/** The PR head ref, titled "<owner>/<repo>:<branch>". */
+	HEAD_REF: ".head-ref[title]",
+	/** The PR base ref, titled "<owner>/<repo>:<branch>". */
+	BASE_REF: ".base-ref[title]",
+	/** The JSON payload of React-rendered code views, including `refInfo`. */
+	EMBEDDED_DATA: "script[data-target='react-app.embeddedData']",
+	/** The ref selector button of code views. */
+	REF_SELECTOR: "#branch-picker-repos-header-ref-selector, #ref-picker-repos-header-ref-selector",
+} as const;
 
 // ============================================================================
 // GitLab Branch Detection
@@ -209,103 +144,157 @@ function extractBranchFromEmbeddedData(): string | null {
 
 /**
  * Detects the source branch name on a GitLab Merge Request page.
- * Tries multiple selectors and the embedded JSON blob, waiting briefly if needed.
+ * Tries multiple selectors and the embedded JSON blob, waiting briefly for the page content to render if needed.
  *
  * @returns The detected source branch name, or null if not found.
  */
 async function getGitLabBranchFromDOM(): Promise<string | null> {
-	return pollForCondition(
+	return waitForCondition(
 		() =>
 			extractBranchFromRefName() ||
 			extractBranchFromRefContainer() ||
 			extractBranchFromEmbeddedData(),
-		CONFIG.GITLAB_BRANCH_DETECT_MAX_WAIT_MS,
-		CONFIG.GITLAB_BRANCH_DETECT_INTERVAL_MS
+		GITLAB_SELECTORS.CONTENT,
+		CONFIG.GITLAB_BRANCH_DETECT_MAX_WAIT_MS
 	);
 }
 
+/**
+ * Reads the MR refs on a GitLab Merge Request page; GitLab only exposes the source branch reliably.
+ *
+ * @returns The refs, or null if the source branch was not found.
+ */
+async function getGitLabPullRequestFromDOM(): Promise<PullRequestRefs | null> {
+	const headBranch = await getGitLabBranchFromDOM();
+	return headBranch ? { headBranch } : null;
+}
+
 // ============================================================================
-// URL Normalization
+// GitHub Pull Request Detection
 // ============================================================================
 
 /**
- * Normalizes a GitLab URL to point to the repository or branch tree.
- * On MR pages, attempts to rewrite to the source branch tree URL.
+ * Parses a GitHub PR ref title ("<owner>/<repo>:<branch>") into a repository URL and branch.
+ * Branch names may contain colons, repository names can't.
  *
- * @param url - The current GitLab URL.
- * @returns The normalized repository URL.
+ * @param selector - The selector of the ref element.
+ * @returns The repository URL and branch, or null if the element is missing or unparsable.
  */
-async function normalizeGitLabUrl(url: string): Promise<string> {
-	// Handle Merge Request URLs
-	const mrMatch = url.match(
-		/(https:\/\/gitlab\.com\/[^/]+\/[^/]+)\/-\/merge_requests\/\d+/
-	);
-
-	if (mrMatch) {
-		const baseRepo = mrMatch[1];
-		const branch = await getGitLabBranchFromDOM();
-		return branch ? `${baseRepo}/-/tree/${branch}` : baseRepo;
-	}
-
-	// Handle blob URLs (single file views)
-	if (url.includes("/-/blob/")) {
-		return url.split("/-/blob/")[0];
-	}
+function extractGitHubRef(selector: string): { repoUrl: string; branch: string } | null {
+	const title = document.querySelector(selector)?.getAttribute("title")?.trim();
+	const match = title?.match(/^([^/:\s]+\/[^/:\s]+):(.+)$/);
+	return match ? { repoUrl: `${window.location.origin}/${match[1]}`, branch: match[2] } : null;
+}
 
-	return url;
+/**
+ * Reads the head and base refs on a GitHub Pull Request page, including the fork the PR was opened from.
+ *
+ * @returns The refs, or null if the head ref was not found.
+ */
+async function getGitHubPullRequestFromDOM(): Promise<PullRequestRefs | null> {
+	const head = extractGitHubRef(GITHUB_SELECTORS.HEAD_REF);
+	if (!head) return null;
+
+	const base = extractGitHubRef(GITHUB_SELECTORS.BASE_REF);
+	return {
+		headBranch: head.branch,
+		headRepoUrl: head.repoUrl,
+		...(base && { baseBranch: base.branch, baseRepoUrl: base.repoUrl }),
+	};
 }
 
+// ============================================================================
+// Ref Detection
+// ============================================================================
+
 /**
- * Normalizes a GitHub URL to point to the repository or branch tree.
- * Removes extra segments such as pull requests, issues, or actions.
+ * Reads the ref from the JSON payload GitHub embeds in React-rendered code views.
  *
- * @param url - The current GitHub URL.
- * @returns The normalized repository URL.
+ * @returns The ref if the payload names one, otherwise null.
  */
-function normalizeGitHubUrl(url: string): string {
-	const baseMatch = url.match(/(https:\/\/github\.com\/[^/]+\/[^/]+)/);
-	if (!baseMatch) return url;
+function extractGitHubRefFromEmbeddedData(): PageRef | null {
+	const data = document.querySelector(GITHUB_SELECTORS.EMBEDDED_DATA)?.textContent;
+	if (!data) return null;
 
-	let normalizedUrl = baseMatch[1];
+	try {
+		const refInfo = JSON.parse(data)?.payload?.refInfo;
+		if (typeof refInfo?.name !== "string" || !refInfo.name) return null;
 
-	// Preserve branch information if present in the path
-	const branchMatch = window.location.pathname.match(/\/tree\/([^/]+)/);
-	if (branchMatch) {
-		normalizedUrl = `${normalizedUrl}/tree/${branchMatch[1]}`;
+		if (refInfo.refType === "tag") return { name: refInfo.name, type: "tag" };
+		return { name: refInfo.name, type: /^[0-9a-f]{40}$/.test(refInfo.name) ? "commit" : "branch" };
+	} catch {
+		return null;
 	}
+}
 
-	return normalizedUrl;
+/**
+ * Reads the ref from GitHub's ref selector button, which doesn't say what kind of ref it shows.
+ *
+ * @returns The ref (typed as a branch) if the selector is present, otherwise null.
+ */
+function extractGitHubRefFromSelector(): PageRef | null {
+	const name = document.querySelector(GITHUB_SELECTORS.REF_SELECTOR)?.textContent?.trim();
+	return name ? { name, type: "branch" } : null;
 }
 
 /**
- * Normalizes a repository URL to always point to a cloneable path.
- * Handles provider-specific URL patterns (GitLab, GitHub).
+ * Detects the ref shown on a GitHub code page.
  *
- * @param currentUrl - The current browser location.
- * @returns The normalized repository URL.
+ * @returns The ref, or null if the page doesn't show one.
  */
-async function normalizeRepoUrl(currentUrl: string): Promise<string> {
-	try {
-		if (/gitlab\.com/.test(currentUrl)) {
-			return await normalizeGitLabUrl(currentUrl);
-		}
+async function getGitHubRefFromDOM(): Promise<PageRef | null> {
+	return extractGitHubRefFromEmbeddedData() ?? extractGitHubRefFromSelector();
+}
 
-		if (/github\.com/.test(currentUrl)) {
-			return normalizeGitHubUrl(currentUrl);
-		}
-	} catch {
-		// Silent fallback to original URL
-	}
+/**
+ * Detects the ref shown on a GitLab code page from the ref switcher's data attributes.
+ *
+ * @returns The ref, or null if the page doesn't show one.
+ */
+async function getGitLabRefFromDOM(): Promise<PageRef | null> {
+	const switcher = document.querySelector<HTMLElement>(GITLAB_SELECTORS.REF_SWITCHER);
+	const name = switcher?.dataset.ref?.trim();
+	if (!name) return null;
 
-	return currentUrl;
+	return { name, type: switcher?.dataset.refType === "tags" ? "tag" : "branch" };
+}
+
+/**
+ * How the PR/MR refs and the shown ref are read from the page, per provider.
+ * Whatever the page can't tell is looked up through the provider's REST API (see pull-request.ts)
+ * or taken from the URL.
+ */
+const PAGE_RESOLVERS: Partial<Record<SupportedApplication, PageResolvers>> = {
+	github: { pullRequest: getGitHubPullRequestFromDOM, ref: getGitHubRefFromDOM },
+	gitlab: { pullRequest: getGitLabPullRequestFromDOM, ref: getGitLabRefFromDOM },
+};
+
+/**
+ * Picks how the PR/MR refs and the shown ref are read from the page.
+ *
+ * @param application - The Git provider of the current page.
+ * @returns The page resolvers (empty if the provider has none).
+ */
+function getPageResolvers(application: SupportedApplication): PageResolvers {
+	return PAGE_RESOLVERS[application] ?? {};
 }
 
 // ============================================================================
 // Button Creation & Injection
 // ============================================================================
 
+/** Path of the caret icon of the profile menu toggle (Octicons, MIT). */
+const TRIANGLE_DOWN_ICON_PATH =
+	"m4.427 7.427 3.396 3.396a.25.25 0 0 0 .354 0l3.396-3.396A.25.25 0 0 0 11.396 7H4.604a.25.25 0 0 0-.177.427Z";
+
+/** Path of the warning icon of buttons whose workspace URL couldn't be rendered (Octicons, MIT). */
+const ALERT_ICON_PATH =
+	"M6.457 1.047c.659-1.234 2.427-1.234 3.086 0l6.082 11.378A1.75 1.75 0 0 1 14.082 15H1.918a1.75 1.75 0 0 1-1.543-2.575Zm1.763.707a.25.25 0 0 0-.44 0L1.698 13.132a.25.25 0 0 0 .22.368h12.164a.25.25 0 0 0 .22-.368Zm.53 3.996v2.5a.75.75 0 0 1-1.5 0v-2.5a.75.75 0 0 1 1.5 0ZM9 11a1 1 0 1 1-2 0 1 1 0 0 1 2 0Z";
+
 /**
- * Creates the container element that wraps the "Open" button.
+ * Creates the container element that wraps the "Open" button. Its classes select the host's
+ * button style from button.css: the provider, size variants, the configured emphasis and whether
+ * the page shows a dark theme.
  *
  * @param config - Button contribution configuration.
  * @returns The configured container element.
@@ -317,53 +306,411 @@ function createButtonContainer(config: {
 }): HTMLElement {
 	const container = document.createElement(config.containerElement.type);
 
-	// Set attributes from props
+	// Props are inline styles (e.g. marginLeft), or attributes where they aren't a CSS property
 	for (const [key, val] of Object.entries(config.containerElement.props)) {
-		container.setAttribute(key, val);
+		if (key in container.style) {
+			container.style.setProperty(toCssProperty(key), val);
+		} else {
+			container.setAttribute(key, val);
+		}
 	}
 
-	// Add standard GitLab classes
-	container.classList.add(
-		"gl-disclosure-dropdown",
-		"code-dropdown",
-		"gl-text-left",
-		"gl-new-dropdown",
-		config.application
-	);
-
-	// Add any additional custom classes
+	container.classList.add("eons-button", config.application);
 	config.additionalClassNames?.forEach((cls) => container.classList.add(cls));
 
+	// The configured emphasis overrides the contribution's, which fits the buttons next to it
+	const { emphasis } = buttonAppearance;
+	if (emphasis !== "auto") {
+		container.classList.toggle("secondary", emphasis === "secondary");
+	}
+	container.classList.toggle("eons-dark", isDarkTheme());
+
 	return container;
 }
 
 /**
- * Creates the "Open" button element with proper styling and attributes.
+ * Converts a camel-cased style name (as in `element.style`) into its CSS property name.
+ *
+ * @param name - The style name, e.g. "marginLeft".
+ * @returns The property name, e.g. "margin-left".
+ */
+function toCssProperty(name: string): string {
+	return name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Creates an icon image element.
+ *
+ * @param src - The icon URL.
+ * @returns The icon image.
+ */
+function createIconImage(src: string): HTMLImageElement {
+	const icon = document.createElement("img");
+	icon.className = "eons-profile-icon";
+	icon.src = src;
+	icon.alt = "";
+	return icon;
+}
+
+/**
+ * Creates an optional profile icon element.
+ *
+ * @param profile - The workspace profile.
+ * @returns The icon image, or null if the profile has no icon.
+ */
+function createProfileIcon(profile: WorkspaceProfile): HTMLImageElement | null {
+	return profile.icon ? createIconImage(profile.icon) : null;
+}
+
+/**
+ * Creates a 16px SVG icon drawn in the current text color.
+ *
+ * @param pathData - The path of the icon.
+ * @returns The icon element.
+ */
+function createSvgIcon(pathData: string): SVGSVGElement {
+	const svgNamespace = "http://www.w3.org/2000/svg";
+	const icon = document.createElementNS(svgNamespace, "svg");
+	icon.setAttribute("viewBox", "0 0 16 16");
+	icon.setAttribute("width", "16");
+	icon.setAttribute("height", "16");
+	icon.setAttribute("aria-hidden", "true");
+
+	const path = document.createElementNS(svgNamespace, "path");
+	path.setAttribute("d", pathData);
+	icon.appendChild(path);
+	return icon;
+}
+
+/** The profile link each launch anchor currently opens. */
+const anchorLinks = new WeakMap<HTMLAnchorElement, ProfileLink>();
+
+/**
+ * Describes why a link's workspace URL couldn't be rendered.
+ *
+ * @param link - A profile link carrying an error.
+ * @returns The description, for tooltips and toasts.
+ */
+function describeLinkError(link: ProfileLink): string {
+	return `Can't open ${link.profile.label}: ${link.error}`;
+}
+
+/**
+ * Points a launch anchor at another workspace link (e.g. the hovered line of a diff).
+ * A link whose URL couldn't be rendered puts the anchor into its error state, with the reason as tooltip.
+ *
+ * @param anchor - The anchor element.
+ * @param link - The profile link it opens.
+ */
+function setAnchorLink(anchor: HTMLAnchorElement, link: ProfileLink): void {
+	anchorLinks.set(anchor, link);
+	anchor.classList.toggle(CONFIG.ERROR_CLASS, Boolean(link.error));
+	if (link.error) {
+		anchor.removeAttribute("href");
+		anchor.setAttribute("aria-disabled", "true");
+		anchor.title = describeLinkError(link);
+	} else {
+		anchor.href = link.workspaceUrl;
+		anchor.removeAttribute("aria-disabled");
+	}
+}
+
+/**
+ * Describes a profile link for the background worker, which renders it again from the stored profile.
+ *
+ * @param link - The profile link.
+ * @returns The profile, page context and parameter values of the link.
+ */
+function toLinkRequest(link: ProfileLink): ProfileLinkRequest {
+	return { profileId: link.profile.id, context: link.context, parameters: link.parameters };
+}
+
+/**
+ * Asks the background worker to record a launch the page opened itself; only the worker writes the
+ * launch history.
+ *
+ * @param link - The profile link that was opened.
+ */
+function sendRecordMessage(link: ProfileLink): void {
+	const message: RecordLaunchMessage = { type: MESSAGE_TYPES.RECORD_LAUNCH, ...toLinkRequest(link) };
+	browser.runtime.sendMessage(message).catch(console.error);
+}
+
+/**
+ * Hands a profile link to the background worker, which launches the workspace (through the profile's
+ * platform API or following its reuse policy) and records the launch.
+ *
+ * @param link - The profile link to launch.
+ * @param newWorkspace - Whether to open a new workspace regardless of the reuse policy.
+ */
+function sendLaunchMessage(link: ProfileLink, newWorkspace = false): void {
+	const message: LaunchWorkspaceMessage = {
+		type: MESSAGE_TYPES.LAUNCH_WORKSPACE,
+		...toLinkRequest(link),
+		newWorkspace,
+	};
+	if (usesPlatformApi(link.profile)) {
+		showPageToast(`Eons Dev Launcher: launching the workspace in ${link.profile.label}…`);
+	}
+	browser.runtime.sendMessage(message).catch(console.error);
+}
+
+/**
+ * Makes an anchor open a workspace link and record the launch in the history.
+ * The anchor keeps its href, so "copy link" and middle-click still work; plain clicks are opened
+ * by the script so the launch is recorded before the page can navigate away. Plain clicks on
+ * profiles launching through a platform API, or that may reuse an existing workspace, are handed to
+ * the background worker, which launches or reuses the workspace and records the launch.
+ *
+ * @param anchor - The anchor element.
+ * @param link - The profile link it opens (until changed with `setAnchorLink`).
+ */
+function attachLaunchRecorder(anchor: HTMLAnchorElement, link: ProfileLink): void {
+	setAnchorLink(anchor, link);
+	anchor.target = "_blank";
+	anchor.rel = "noopener";
+
+	const record = () => {
+		const current = anchorLinks.get(anchor);
+		if (current && !current.error) sendRecordMessage(current);
+	};
+
+	anchor.addEventListener("click", (event) => {
+		const failed = anchorLinks.get(anchor);
+		if (failed?.error) {
+			event.preventDefault();
+			showPageToast(`Eons Dev Launcher: ${describeLinkError(failed)}`);
+			return;
+		}
+		if (event.button !== 0 || event.ctrlKey || event.metaKey || event.shiftKey) {
+			// Let the browser handle modified clicks (new window, background tab)
+			record();
+			return;
+		}
+		event.preventDefault();
+
+		const current = anchorLinks.get(anchor);
+		if (current && (usesPlatformApi(current.profile) || (current.profile.reusePolicy ?? "new") !== "new")) {
+			sendLaunchMessage(current);
+			return;
+		}
+
+		window.open(anchor.href, "_blank", "noopener");
+		record();
+	});
+
+	anchor.addEventListener("auxclick", (event) => {
+		if (event.button === 1) {
+			record();
+		}
+	});
+}
+
+/**
+ * Asks for a profile's launch parameters, starting from the values last used from the repository,
+ * and launches the workspace with them. The launch goes through the background worker, since the
+ * page may no longer be allowed to open a tab once the form is submitted, and always opens a new
+ * workspace: an existing one may run with other values.
+ *
+ * @param link - The profile link of the page, rendered with the default values.
+ */
+async function launchWithOptions(link: ProfileLink): Promise<void> {
+	const { profile, context } = link;
+	const parameters = profile.parameters ?? [];
+	const repository = repositoryKey(context);
+
+	const values = await askLaunchParameters({
+		profileLabel: profile.label,
+		parameters,
+		values: resolveParameterValues(parameters, await loadLastParameterValues(profile.id, repository)),
+	});
+	if (!values) return;
+
+	await saveLastParameterValues(profile.id, repository, values);
+	const launched = await renderProfileLink(profile, context, urlSafety, link.rule, values);
+	if (launched.error) {
+		showPageToast(`Eons Dev Launcher: ${describeLinkError(launched)}`);
+		return;
+	}
+	sendLaunchMessage(launched, true);
+}
+
+/**
+ * Creates the "Open" button element with its configured label and icon.
+ * The button opens the given (default) profile.
  *
  * @param id - Unique identifier for the button.
- * @param workspaceUrl - The target workspace URL.
+ * @param link - The default profile and its rendered workspace URL.
+ * @param split - Whether a menu toggle follows the button.
  * @returns The configured button element.
  */
-function createOpenButton(id: string, workspaceUrl: string): HTMLAnchorElement {
+function createOpenButton(id: string, link: ProfileLink, split: boolean): HTMLAnchorElement {
 	const button = document.createElement("a");
 	button.id = `${CONFIG.BUTTON_ID_PREFIX}${id}`;
-	button.href = workspaceUrl;
-	button.target = "_blank";
-	button.className =
-		"btn btn-confirm btn-md gl-button gl-new-dropdown-toggle";
+	attachLaunchRecorder(button, link);
+	if (!link.error) {
+		button.title = link.rule
+			? `Open in ${link.profile.label} (matched rule "${link.rule.label}")`
+			: `Open in ${link.profile.label}`;
+	}
+	if (link.rule) {
+		button.dataset.eonsRule = link.rule.id;
+	}
+	button.className = split ? "button-part action" : "button-part action-no-options";
+
+	const icon = link.error
+		? createSvgIcon(ALERT_ICON_PATH)
+		: buttonAppearance.icon
+			? createIconImage(buttonAppearance.icon)
+			: createProfileIcon(link.profile);
+	if (icon) {
+		icon.classList.add("action-logo");
+		button.appendChild(icon);
+	}
 
-	// Create nested span structure for GitLab styling
-	const outerSpan = document.createElement("span");
-	outerSpan.className = "gl-button-text";
+	const label = document.createElement("span");
+	label.className = "action-label";
+	label.textContent = buttonLabels.get(link) ?? DEFAULT_BUTTON_APPEARANCE.label;
+	button.appendChild(label);
 
-	const innerSpan = document.createElement("span");
-	innerSpan.className = "gl-new-dropdown-button-text";
-	innerSpan.textContent = "Open";
+	return button;
+}
 
-	outerSpan.appendChild(innerSpan);
-	button.appendChild(outerSpan);
+/**
+ * Creates the caret toggle that reveals the profile menu of a split button.
+ *
+ * @param container - The button container holding the menu.
+ * @returns The configured toggle button.
+ */
+function createMenuToggle(container: HTMLElement): HTMLButtonElement {
+	const toggle = document.createElement("button");
+	toggle.type = "button";
+	toggle.className = "button-part action-chevron eons-menu-toggle";
+	toggle.setAttribute("aria-haspopup", "menu");
+	toggle.setAttribute("aria-expanded", "false");
+	toggle.setAttribute("aria-label", "Choose workspace profile");
+
+	const caret = createSvgIcon(TRIANGLE_DOWN_ICON_PATH);
+	caret.classList.add("chevron-icon");
+	toggle.appendChild(caret);
+
+	toggle.addEventListener("click", (event) => {
+		event.preventDefault();
+		event.stopPropagation();
+		const open = !container.classList.contains(CONFIG.MENU_OPEN_CLASS);
+		closeProfileMenus();
+		setProfileMenuOpen(container, open);
+	});
 
-	return button;
+	return toggle;
+}
+
+/**
+ * Creates the menu entry that asks for a profile's launch parameters before opening it.
+ *
+ * @param link - The profile link.
+ * @param isDefault - Whether the profile is the one the "Open" button opens.
+ * @returns The menu entry.
+ */
+function createOptionsMenuItem(link: ProfileLink, isDefault: boolean): HTMLButtonElement {
+	const item = document.createElement("button");
+	item.type = "button";
+	item.className = "button-part drop-down-action eons-options-action";
+	item.setAttribute("role", "menuitem");
+	item.textContent = isDefault ? "Open with options…" : `${link.profile.label} with options…`;
+
+	item.addEventListener("click", (event) => {
+		event.preventDefault();
+		event.stopPropagation();
+		closeProfileMenus();
+		launchWithOptions(link).catch(console.error);
+	});
+
+	return item;
+}
+
+/**
+ * Creates the dropdown panel listing the non-default profiles, followed by an "Open with options…"
+ * entry for each profile with launch parameters.
+ *
+ * @param defaultLink - The default profile and its rendered workspace URL.
+ * @param links - The other profiles and their rendered workspace URLs.
+ * @returns The dropdown panel element.
+ */
+function createProfileMenu(defaultLink: ProfileLink, links: ProfileLink[]): HTMLElement {
+	const menu = document.createElement("div");
+	menu.className = "drop-down eons-profile-menu";
+	menu.setAttribute("role", "menu");
+
+	for (const link of links) {
+		const item = document.createElement("a");
+		item.className = "button-part drop-down-action";
+		attachLaunchRecorder(item, link);
+		item.setAttribute("role", "menuitem");
+
+		const icon = createProfileIcon(link.profile);
+		if (icon) {
+			icon.classList.add("action-logo");
+			item.appendChild(icon);
+		}
+		item.append(link.profile.label);
+		menu.appendChild(item);
+	}
+
+	for (const link of [defaultLink, ...links]) {
+		if (link.profile.parameters?.length) {
+			menu.appendChild(createOptionsMenuItem(link, link === defaultLink));
+		}
+	}
+
+	return menu;
+}
+
+/**
+ * Opens or closes the profile menu of a button container.
+ *
+ * @param container - The button container holding the menu.
+ * @param open - Whether the menu should be open.
+ */
+function setProfileMenuOpen(container: HTMLElement, open: boolean): void {
+	container.classList.toggle(CONFIG.MENU_OPEN_CLASS, open);
+	container
+		.querySelector(".eons-menu-toggle")
+		?.setAttribute("aria-expanded", String(open));
+}
+
+/**
+ * Closes every open profile menu on the page.
+ */
+function closeProfileMenus(): void {
+	document
+		.querySelectorAll<HTMLElement>(`.${CONFIG.MENU_OPEN_CLASS}`)
+		.forEach((container) => setProfileMenuOpen(container, false));
+}
+
+/**
+ * Populates a button container with the "Open" button and, when more than one profile is
+ * configured or a profile has launch parameters, a caret toggling a menu of the remaining
+ * profiles and the "Open with options…" entries.
+ *
+ * @param container - The button container to populate.
+ * @param id - Unique identifier for the button.
+ * @param links - All profiles and their rendered workspace URLs, default first.
+ */
+function populateButtonContainer(
+	container: HTMLElement,
+	id: string,
+	links: ProfileLink[]
+): void {
+	const [defaultLink, ...otherLinks] = links;
+	const split = otherLinks.length > 0 || links.some((link) => link.profile.parameters?.length);
+	container.appendChild(createOpenButton(id, defaultLink, split));
+
+	if (!split) return;
+
+	container.classList.add("eons-split-button");
+	container.appendChild(createMenuToggle(container));
+	container.appendChild(createProfileMenu(defaultLink, otherLinks));
 }
 
 /**
@@ -372,18 +719,23 @@ function createOpenButton(id: string, workspaceUrl: string): HTMLAnchorElement {
  * @param container - The container element to insert.
  * @param parent - The parent element to insert into.
  * @param insertBeforeSelector - Optional selector for the sibling element to insert before.
+ * @param scoped - Whether to look up the sibling within the parent only (for additive buttons).
  */
 function insertButtonIntoDOM(
 	container: HTMLElement,
 	parent: HTMLElement,
-	insertBeforeSelector?: string
+	insertBeforeSelector?: string,
+	scoped = false
 ): void {
 	if (!insertBeforeSelector) {
 		parent.appendChild(container);
 		return;
 	}
 
-	const sibling = queryElement(insertBeforeSelector);
+	const sibling =
+		scoped && !insertBeforeSelector.startsWith("xpath:")
+			? parent.querySelector<HTMLElement>(insertBeforeSelector)
+			: queryElement(insertBeforeSelector);
 
 	if (sibling?.parentElement) {
 		sibling.parentElement.insertBefore(container, sibling);
@@ -393,89 +745,365 @@ function insertButtonIntoDOM(
 }
 
 /**
- * Checks if a button has already been injected for the given contribution.
+ * Checks whether a contribution places an extra button rather than the page's main button.
  *
- * @param id - The button contribution ID.
- * @returns True if the button already exists in the DOM.
+ * @param contribution - The button contribution configuration.
+ * @returns True for additive contributions.
  */
-function isButtonAlreadyInjected(id: string): boolean {
-	return document.querySelector(`#${CONFIG.BUTTON_ID_PREFIX}${id}`) !== null;
+function isAdditive(contribution: ButtonContributionParams): boolean {
+	return contribution.placement === "additive";
 }
 
 /**
- * Checks if the current URL matches the contribution's criteria.
+ * Checks whether a button of a contribution is on the page, optionally in a given element.
  *
- * @param match - The match criteria (function or regex).
- * @param repoUrl - The normalized repository URL.
- * @returns True if the URL matches the criteria.
+ * @param contribution - The button contribution configuration.
+ * @param parent - The element the button was placed into (optional).
+ * @returns True if such a button is still in the DOM.
  */
-function matchesContributionCriteria(
-	match: RegExp | (() => boolean),
-	repoUrl: string
-): boolean {
-	if (typeof match === "function") {
-		return match();
-	}
-
-	if (match instanceof RegExp) {
-		return match.test(repoUrl);
-	}
+function hasInjectedButton(contribution: ButtonContributionParams, parent?: HTMLElement): boolean {
+	return injectedButtons.some(
+		(button) =>
+			button.contribution === contribution &&
+			(parent === undefined || button.parent === parent) &&
+			button.container.isConnected
+	);
+}
 
-	return false;
+/**
+ * Checks whether the page's main button (of an exclusive contribution) is placed.
+ *
+ * @returns True if an exclusive contribution's button is on the page.
+ */
+function isExclusiveButtonPlaced(): boolean {
+	return getButtonContributions().some(
+		(contribution) => !isAdditive(contribution) && hasInjectedButton(contribution)
+	);
 }
 
 /**
- * Attempts to inject a button based on a single contribution configuration.
+ * Finds the elements a contribution can still place buttons into: the first match for exclusive
+ * contributions, every match for additive ones, each only if it has no button yet.
  *
  * @param contribution - The button contribution configuration.
- * @param workspaceUrl - The rendered workspace URL.
- * @param repoUrl - The normalized repository URL.
- * @returns True if the button was successfully injected.
- */
-function tryInjectButton(
-	contribution: (typeof buttonContributions)[number],
-	workspaceUrl: string,
-	repoUrl: string
-): boolean {
-	const {
-		id,
-		match,
-		selector,
-		containerElement,
-		insertBefore,
-		application,
-		additionalClassNames,
-	} = contribution;
-
-	// Check if URL matches contribution criteria
-	if (!matchesContributionCriteria(match, repoUrl)) {
-		return false;
+ * @returns The elements to inject into.
+ */
+function findInjectionTargets(contribution: ButtonContributionParams): HTMLElement[] {
+	if (!isAdditive(contribution)) {
+		const parent = queryElement(contribution.selector);
+		return parent && !hasInjectedButton(contribution) ? [parent] : [];
 	}
 
-	// Check if button already exists
-	if (isButtonAlreadyInjected(id)) {
-		return false;
-	}
+	// Per-file contributions skip elements that don't belong to a file (e.g. directory rows)
+	return queryElements(contribution.selector).filter(
+		(parent) =>
+			!hasInjectedButton(contribution, parent) &&
+			(!contribution.fileTarget || contribution.fileTarget(parent) !== null)
+	);
+}
+
+/**
+ * Injects a button for a contribution into an element.
+ *
+ * @param contribution - The button contribution configuration.
+ * @param parent - The element to inject into.
+ * @param links - All profiles and their rendered workspace URLs, default first.
+ * @returns The injected button container, or null if a per-file contribution found no file.
+ */
+function injectButton(
+	contribution: ButtonContributionParams,
+	parent: HTMLElement,
+	links: ProfileLink[]
+): HTMLElement | null {
+	const { id, containerElement, insertBefore, application, additionalClassNames } = contribution;
 
-	// Find parent element
-	const parent = queryElement(selector);
-	if (!parent) {
-		return false;
+	if (contribution.fileTarget) {
+		return injectFileButton(contribution, parent, links[0]);
 	}
 
-	// Create and assemble button
+	// Create and assemble button; additive contributions may place several
 	const container = createButtonContainer({
 		containerElement,
 		application,
 		additionalClassNames,
 	});
-	const button = createOpenButton(id, workspaceUrl);
-	container.appendChild(button);
+	const buttonId = isAdditive(contribution) ? `${id}-${++injectedButtonCount}` : id;
+	populateButtonContainer(container, buttonId, links);
 
 	// Insert into DOM
-	insertButtonIntoDOM(container, parent, insertBefore);
+	insertButtonIntoDOM(container, parent, insertBefore, isAdditive(contribution));
+	injectedButtons.push({ contribution, parent, container });
 
-	return true;
+	return container;
+}
+
+// ============================================================================
+// Per-File Buttons
+// ============================================================================
+
+/** Path of the "code" icon shown on per-file buttons of profiles without an icon (Octicons, MIT). */
+const CODE_ICON_PATH =
+	"m11.28 3.22 4.25 4.25a.75.75 0 0 1 0 1.06l-4.25 4.25a.749.749 0 0 1-1.275-.326.749.749 0 0 1 .215-.734L13.94 8l-3.72-3.72a.749.749 0 0 1 .326-1.275.749.749 0 0 1 .734.215Zm-6.56 0a.751.751 0 0 1 1.042.018.751.751 0 0 1 .018 1.042L2.06 8l3.72 3.72a.749.749 0 0 1-.326 1.275.749.749 0 0 1-.734-.215L.47 8.53a.75.75 0 0 1 0-1.06Z";
+
+/**
+ * Builds the template context for a file: the page's context with the file's path.
+ * A line range selected on the page doesn't apply to the file and is dropped.
+ *
+ * @param pageContext - The context of the current page.
+ * @param target - The file the button belongs to.
+ * @returns The file's context, or null if its path can't be determined.
+ */
+function createFileContext(pageContext: PageContext, target: FileTarget): PageContext | null {
+	let filePath = target.filePath;
+	if (!filePath && target.fileUrl) {
+		const ref = pageContext.branchName
+			? { name: pageContext.branchName, type: pageContext.refType ?? "branch" }
+			: null;
+		filePath = extractPageContext(target.fileUrl, pageContext.provider, pageContext.repoUrl, ref).filePath;
+	}
+	if (!filePath) return null;
+
+	const context: PageContext = { ...pageContext, filePath };
+	delete context.lineRange;
+	return context;
+}
+
+/**
+ * Renders a profile's workspace URL for another context.
+ *
+ * @param link - The profile link of the page.
+ * @param context - The context to render.
+ * @returns The profile link for the context.
+ */
+async function renderContextLink(link: ProfileLink, context: PageContext): Promise<ProfileLink> {
+	return renderProfileLink(link.profile, context, urlSafety, link.rule, link.parameters);
+}
+
+/**
+ * Creates the icon button opening a file in a profile.
+ *
+ * @param id - Unique identifier for the button.
+ * @param link - The profile link it opens until the file's URL is rendered.
+ * @returns The configured button element.
+ */
+function createFileButton(id: string, link: ProfileLink): HTMLAnchorElement {
+	const button = document.createElement("a");
+	button.id = `${CONFIG.BUTTON_ID_PREFIX}${id}`;
+	button.className = "eons-file-button";
+	attachLaunchRecorder(button, link);
+	button.appendChild(createProfileIcon(link.profile) ?? createSvgIcon(CODE_ICON_PATH));
+	return button;
+}
+
+/**
+ * Labels a file button with what it opens.
+ *
+ * @param button - The file button.
+ * @param link - The profile link it opens.
+ */
+function setFileButtonTitle(button: HTMLAnchorElement, link: ProfileLink): void {
+	if (link.error) return;
+
+	const { filePath, lineRange } = link.context;
+	const location = lineRange ? `${filePath} at line ${lineRange}` : filePath;
+	button.title = `Open ${location} in ${link.profile.label}`;
+	button.setAttribute("aria-label", button.title);
+}
+
+/**
+ * Shows a button opening the file at the line under the pointer, in the line's number cell.
+ *
+ * @param contribution - The per-file contribution.
+ * @param diff - The file's diff.
+ * @param id - Unique identifier for the button.
+ * @param fileLink - The profile link of the file.
+ * @returns A function removing the button and its listener.
+ */
+function attachLineButton(
+	contribution: ButtonContributionParams,
+	diff: HTMLElement,
+	id: string,
+	fileLink: ProfileLink
+): () => void {
+	const button = createFileButton(id, fileLink);
+	button.classList.add("eons-line-button");
+
+	const lineLinks = new Map<string, Promise<ProfileLink>>();
+	let hoveredLine: string | null = null;
+
+	const onMouseOver = (event: MouseEvent) => {
+		const target = event.target;
+		if (!(target instanceof Element) || button.contains(target)) return;
+
+		const diffLine = contribution.diffLine?.(target);
+		if (!diffLine || diffLine.line === hoveredLine) return;
+
+		const { line, cell } = diffLine;
+		hoveredLine = line;
+		cell.appendChild(button);
+
+		let lineLink = lineLinks.get(line);
+		if (!lineLink) {
+			lineLink = renderContextLink(fileLink, { ...fileLink.context, lineRange: line });
+			lineLinks.set(line, lineLink);
+		}
+		lineLink
+			.then((link) => {
+				if (hoveredLine !== line) return;
+				setAnchorLink(button, link);
+				setFileButtonTitle(button, link);
+			})
+			.catch(console.error);
+	};
+
+	diff.addEventListener("mouseover", onMouseOver);
+	return () => {
+		diff.removeEventListener("mouseover", onMouseOver);
+		button.remove();
+	};
+}
+
+/**
+ * Injects the icon button of a per-file contribution, opening the primary profile with the file's
+ * path, and the line button of the file's diff.
+ *
+ * @param contribution - The per-file contribution.
+ * @param parent - The element to inject into.
+ * @param pageLink - The primary profile and its workspace URL for the page.
+ * @returns The injected button container, or null if the element belongs to no file.
+ */
+function injectFileButton(
+	contribution: ButtonContributionParams,
+	parent: HTMLElement,
+	pageLink: ProfileLink
+): HTMLElement | null {
+	const target = contribution.fileTarget?.(parent);
+	const context = target && createFileContext(pageLink.context, target);
+	if (!target || !context) return null;
+
+	const id = `${contribution.id}-${++injectedButtonCount}`;
+	const fileLink: ProfileLink = { ...pageLink, context };
+
+	const container = document.createElement(contribution.containerElement.type);
+	container.classList.add("eons-file-action", contribution.application);
+
+	// The button opens the page's URL until the file's URL is rendered
+	const button = createFileButton(id, pageLink);
+	setFileButtonTitle(button, fileLink);
+	container.appendChild(button);
+	renderContextLink(pageLink, context)
+		.then((link) => setAnchorLink(button, link))
+		.catch(console.error);
+
+	insertButtonIntoDOM(container, parent, contribution.insertBefore, true);
+
+	const cleanup =
+		target.diff && contribution.diffLine
+			? attachLineButton(contribution, target.diff, `${id}-line`, fileLink)
+			: undefined;
+	injectedButtons.push({ contribution, parent, container, cleanup });
+
+	return container;
+}
+
+// ============================================================================
+// Page Manipulations
+// ============================================================================
+
+/** A reversible change applied to a host page element by a contribution. */
+interface AppliedManipulation {
+	element: HTMLElement;
+	/** Classes that were present and got removed. */
+	removedClasses: string[];
+	/** Classes that were absent and got added. */
+	addedClasses: string[];
+	/** Inline style values (by CSS property name) as they were before the manipulation; empty if unset. */
+	previousStyle: Record<string, string>;
+}
+
+/** Manipulations applied since the last navigation, in application order. */
+let appliedManipulations: AppliedManipulation[] = [];
+
+/** A button placed by a contribution. */
+interface InjectedButton {
+	contribution: ButtonContributionParams;
+	/** The element matched by the contribution's selector. */
+	parent: HTMLElement;
+	container: HTMLElement;
+	/** Removes what the button placed outside its container, e.g. a diff's line button. */
+	cleanup?: () => void;
+}
+
+/** Buttons injected since the last navigation. */
+let injectedButtons: InjectedButton[] = [];
+
+/** Numbers the buttons of additive contributions, to keep their IDs unique. */
+let injectedButtonCount = 0;
+
+/** Contributions whose manipulations have been applied since the last navigation. */
+let manipulatedContributions = new Set<ButtonContributionParams>();
+
+/**
+ * Applies a contribution's manipulations to the host page, recording how to undo them.
+ * Typically used to demote the host's primary "Clone"/"Code" button or hide empty-repo hints.
+ *
+ * @param contribution - The button contribution configuration.
+ */
+function applyManipulations(contribution: ButtonContributionParams): void {
+	for (const manipulation of contribution.manipulations ?? []) {
+		const remove = manipulation.remove?.split(/\s+/).filter(Boolean) ?? [];
+		const add = manipulation.add?.split(/\s+/).filter(Boolean) ?? [];
+
+		for (const element of queryElements(manipulation.element)) {
+			const applied: AppliedManipulation = {
+				element,
+				removedClasses: remove.filter((cls) => element.classList.contains(cls)),
+				addedClasses: add.filter((cls) => !element.classList.contains(cls)),
+				previousStyle: {},
+			};
+
+			element.classList.remove(...applied.removedClasses);
+			element.classList.add(...applied.addedClasses);
+
+			for (const [property, value] of Object.entries(manipulation.style ?? {})) {
+				if (typeof value !== "string") continue;
+				const name = toCssProperty(property);
+				applied.previousStyle[name] = element.style.getPropertyValue(name);
+				element.style.setProperty(name, value);
+			}
+
+			appliedManipulations.push(applied);
+		}
+	}
+}
+
+/**
+ * Undoes all recorded manipulations, most recent first, and removes injected buttons.
+ * Called on SPA navigation so the next page starts from the host's original state.
+ */
+function resetInjectedState(): void {
+	for (const applied of appliedManipulations.reverse()) {
+		const { element, removedClasses, addedClasses, previousStyle } = applied;
+		element.classList.remove(...addedClasses);
+		element.classList.add(...removedClasses);
+
+		for (const [name, value] of Object.entries(previousStyle)) {
+			if (value) {
+				element.style.setProperty(name, value);
+			} else {
+				element.style.removeProperty(name);
+			}
+		}
+	}
+	appliedManipulations = [];
+
+	injectedButtons.forEach((button) => {
+		button.container.remove();
+		button.cleanup?.();
+	});
+	injectedButtons = [];
+	manipulatedContributions = new Set();
+	launchLinksCache.clear();
 }
 
 // ============================================================================
@@ -488,98 +1116,278 @@ let lastInjectedUrl: string | null = null;
 /** Indicates whether an injection is currently running. */
 let injecting = false;
 
+/** Label, icon and emphasis of the buttons, as configured in Options. */
+let buttonAppearance = DEFAULT_BUTTON_APPEARANCE;
+
+/** How workspace URLs are rendered, for the links rendered here (e.g. per file). */
+let urlSafety = DEFAULT_URL_SAFETY;
+
+/** The rendered label of the "Open" button per default profile link. */
+const buttonLabels = new WeakMap<ProfileLink, string>();
+
+/**
+ * Resolves once the user's self-managed hosts are known to the site detection, their
+ * contributions are merged with the built-ins and the button appearance is loaded.
+ */
+const settingsLoaded = Promise.all([
+	loadCustomHosts().then(registerCustomHosts),
+	loadCustomContributions().then(registerCustomContributions),
+	loadButtonAppearance().then((appearance) => {
+		buttonAppearance = appearance;
+	}),
+	loadUrlSafetySettings().then((settings) => {
+		urlSafety = settings;
+	}),
+]);
+
 /**
- * Checks if a button injection should be skipped for the current page.
+ * Renders the configured button label for a profile link. The label template sees the page
+ * context and the profile's name as `profileName`.
  *
+ * @param link - The profile link the button opens.
+ * @returns The label, or the default label if the template fails or renders empty.
+ */
+async function renderButtonLabel(link: ProfileLink): Promise<string> {
+	try {
+		const label = await renderTemplate(buttonAppearance.label, {
+			...link.context,
+			profileName: link.profile.label,
+		});
+		return label.trim() || DEFAULT_BUTTON_APPEARANCE.label;
+	} catch {
+		return DEFAULT_BUTTON_APPEARANCE.label;
+	}
+}
+
+/** Workspace URLs per transformed page URL, since the last navigation. */
+const launchLinksCache = new Map<string, ProfileLink[]>();
+
+/**
+ * Resolves the workspace URLs for a contribution, once per page URL, so that placing additive
+ * buttons as the page renders doesn't repeat API lookups.
+ *
+ * @param contribution - The button contribution configuration.
  * @param currentUrl - The current browser URL.
- * @returns True if injection should be skipped.
+ * @returns One link per profile, with the primary profile first.
  */
-function shouldSkipInjection(currentUrl: string): boolean {
-	// Skip if already injected on this URL and button still exists
-	return (
-		lastInjectedUrl === currentUrl &&
-		document.querySelector(`[id^="${CONFIG.BUTTON_ID_PREFIX}"]`) !== null
+async function resolveContributionLinks(
+	contribution: ButtonContributionParams,
+	currentUrl: string
+): Promise<ProfileLink[]> {
+	const pageUrl = contribution.urlTransformer?.(currentUrl) ?? currentUrl;
+	const cacheKey = `${contribution.application} ${pageUrl}`;
+
+	const cached = launchLinksCache.get(cacheKey);
+	if (cached) return cached;
+
+	const links = await resolveLaunchLinks(
+		pageUrl,
+		contribution.application,
+		getPageResolvers(contribution.application)
 	);
+	buttonLabels.set(links[0], await renderButtonLabel(links[0]));
+	launchLinksCache.set(cacheKey, links);
+	return links;
 }
 
 /**
- * Main function that injects the Eons "Open" button into supported pages.
+ * Lists the containers of the injected buttons that are still on the page.
+ *
+ * @returns The button containers.
+ */
+function connectedContainers(): HTMLElement[] {
+	return injectedButtons
+		.map((button) => button.container)
+		.filter((container) => container.isConnected);
+}
+
+/**
+ * Main function that injects the Eons "Open" buttons into supported pages: the first exclusive
+ * contribution that can be placed, and every additive one into each of its locations.
  * Handles detection, duplication prevention, and proper DOM placement.
+ *
+ * @returns The containers of the buttons on the page (empty if none could be placed).
  */
-async function injectEonsButton(): Promise<void> {
+async function injectEonsButton(): Promise<HTMLElement[]> {
 	// Prevent concurrent injections
-	if (injecting) return;
-
-	// Check if site is supported
-	if (!isSiteSuitable()) return;
+	if (injecting) return connectedContainers();
 
 	injecting = true;
 
 	try {
+		// Check if site is supported
+		await settingsLoaded;
+		if (!isSiteSuitable()) return [];
+
+		const application = resolveApplication();
 		const currentUrl = window.location.href;
 
-		// Skip if already injected
-		if (shouldSkipInjection(currentUrl)) {
-			return;
+		// Undo the previous page's buttons and manipulations after SPA navigation,
+		// so every button is rebuilt for the new URL
+		if (lastInjectedUrl !== null && lastInjectedUrl !== currentUrl) {
+			resetInjectedState();
+			lastInjectedUrl = null;
 		}
 
-		// Prepare workspace URL
-		const repoUrl = await normalizeRepoUrl(currentUrl);
-		const branchName = extractBranchFromUrl(repoUrl);
-		const template = await getBaseUrlTemplate();
-		const workspaceUrl = await renderWorkspaceUrl(template, repoUrl, branchName);
-
-		// Try each contribution until one succeeds
-		for (const contribution of buttonContributions) {
-			if (tryInjectButton(contribution, workspaceUrl, repoUrl)) {
-				lastInjectedUrl = currentUrl;
-				break;
+		let exclusivePlaced = isExclusiveButtonPlaced();
+
+		for (const contribution of getButtonContributions()) {
+			if (
+				contribution.application !== application ||
+				(exclusivePlaced && !isAdditive(contribution)) ||
+				!matchesContributionCriteria(contribution.match, currentUrl)
+			) {
+				continue;
+			}
+
+			if (findInjectionTargets(contribution).length === 0) continue;
+
+			// Prepare workspace URL
+			const links = await resolveContributionLinks(contribution, currentUrl);
+
+			// Targets may have changed while the URL was rendered
+			const targets = findInjectionTargets(contribution);
+			for (const parent of targets) {
+				injectButton(contribution, parent, links);
 			}
+			if (targets.length === 0) continue;
+
+			if (!manipulatedContributions.has(contribution)) {
+				applyManipulations(contribution);
+				manipulatedContributions.add(contribution);
+			}
+			lastInjectedUrl = currentUrl;
+			if (!isAdditive(contribution)) exclusivePlaced = true;
 		}
+
+		return connectedContainers();
 	} finally {
 		injecting = false;
 	}
 }
 
 // ============================================================================
-// Initialization & Observation
+// Background Messaging
 // ============================================================================
 
 /**
- * Creates a debounced version of a function.
+ * Resolves the workspace URLs for the current page, independent of any injected button.
+ * Used by the toolbar action, which may be clicked on pages where no contribution matched.
  *
- * @param fn - The function to debounce.
- * @param delay - The debounce delay in milliseconds.
- * @returns The debounced function.
+ * @returns One link per profile (primary first), or null if the page is not on a supported site.
  */
-function debounce<T extends (...args: unknown[]) => unknown>(
-	fn: T,
-	delay: number
-): (...args: Parameters<T>) => void {
-	let timeoutId: number | null = null;
+async function resolveCurrentPageLinks(): Promise<ProfileLink[] | null> {
+	await settingsLoaded;
+	const application = resolveApplication();
+	if (!application) return null;
+
+	// Apply the URL transformer of a contribution that matches the page, if any
+	const currentUrl = window.location.href;
+	const contribution = getButtonContributions().find(
+		(candidate) =>
+			candidate.application === application &&
+			matchesContributionCriteria(candidate.match, currentUrl) &&
+			queryElement(candidate.selector) !== null
+	);
+	const pageUrl = contribution?.urlTransformer?.(currentUrl) ?? currentUrl;
 
-	return (...args: Parameters<T>) => {
-		if (timeoutId !== null) {
-			clearTimeout(timeoutId);
-		}
-		timeoutId = window.setTimeout(() => fn(...args), delay);
+	return resolveLaunchLinks(pageUrl, application, getPageResolvers(application));
+}
+
+/**
+ * Lets the user pick an element and sends its selector to the background worker, which opens
+ * the Options page to define a contribution for it.
+ *
+ * @param application - The provider of the current page.
+ */
+async function pickContributionTarget(application: SupportedApplication): Promise<void> {
+	const element = await pickElement();
+	if (!element) return;
+
+	const message: ElementPickedMessage = {
+		type: MESSAGE_TYPES.ELEMENT_PICKED,
+		picked: { selector: buildSelector(element), application, url: window.location.href },
 	};
+	await browser.runtime.sendMessage(message);
+}
+
+/**
+ * Tells the background worker which application the page shows, if its host isn't configured, so
+ * links to the host and launches without the page are detected alike (see `registerDetectedHosts`).
+ */
+async function reportPageApplication(): Promise<void> {
+	await settingsLoaded;
+	const application = resolveDetectedApplication();
+	if (!application) return;
+
+	const message: ReportPageApplicationMessage = { type: MESSAGE_TYPES.REPORT_PAGE_APPLICATION, application };
+	await browser.runtime.sendMessage(message);
 }
 
+reportPageApplication().catch(console.error);
+
+/**
+ * Answers requests from the background worker and the toolbar popup.
+ */
+browser.runtime.onMessage.addListener((message: unknown) => {
+	if (isMessageOfType<GetLaunchLinksMessage>(message, MESSAGE_TYPES.GET_LAUNCH_LINKS)) {
+		return resolveCurrentPageLinks();
+	}
+	if (isMessageOfType<GetInjectionStatsMessage>(message, MESSAGE_TYPES.GET_INJECTION_STATS)) {
+		return Promise.resolve(injectionScheduler.stats());
+	}
+	if (isMessageOfType<StartElementPickerMessage>(message, MESSAGE_TYPES.START_ELEMENT_PICKER)) {
+		// Answers whether picking started; the pick itself is reported separately
+		return settingsLoaded.then(() => {
+			const application = resolveApplication();
+			if (!application) return false;
+			pickContributionTarget(application).catch(console.error);
+			return true;
+		});
+	}
+	return undefined;
+});
+
+// ============================================================================
+// Initialization & Scheduling
+// ============================================================================
+
 /**
- * Observes DOM mutations and re-runs the injector when SPA pages update.
- * Uses debouncing to prevent excessive re-injection attempts.
+ * Lists the selectors buttons can still be placed into on the current page: those of the
+ * contributions for the page's provider whose URL criteria match (criteria checking the DOM may
+ * change as the page renders, so they are always included). Exclusive contributions drop out once
+ * the main button is placed; additive ones may gain new locations as the page renders.
+ *
+ * @returns The contribution selectors.
  */
-const debouncedInject = debounce(
-	injectEonsButton,
-	CONFIG.MUTATION_DEBOUNCE_MS
-);
+function targetSelectors(): string[] {
+	const application = resolveApplication();
+	const currentUrl = window.location.href;
+	const exclusivePlaced = isExclusiveButtonPlaced();
+
+	return getButtonContributions()
+		.filter(
+			(contribution) =>
+				contribution.application === application &&
+				(isAdditive(contribution) || !exclusivePlaced) &&
+				(!(contribution.match instanceof RegExp) || contribution.match.test(currentUrl))
+		)
+		.map((contribution) => contribution.selector);
+}
 
-const observer = new MutationObserver(debouncedInject);
-observer.observe(document.body, { childList: true, subtree: true });
+/**
+ * Runs the injector on page load and SPA navigation, watching only where buttons can appear.
+ */
+const injectionScheduler = startInjectionScheduler({
+	inject: injectEonsButton,
+	targetSelectors,
+	debounceMs: CONFIG.MUTATION_DEBOUNCE_MS,
+});
 
 /**
- * Initializes the injector for both static and dynamic page loads.
+ * Closes open profile menus when clicking elsewhere or pressing Escape.
  */
-window.addEventListener("load", injectEonsButton);
-document.addEventListener("DOMContentLoaded", injectEonsButton);
\ No newline at end of file
+document.addEventListener("click", closeProfileMenus);
+document.addEventListener("keydown", (event) => {
+	if (event.key === "Escape") closeProfileMenus();
+});
@@ -0,0 +1,190 @@
+/**
+ * DOM queries and scoped observation for the content script.
+ *
+ * Contribution selectors are CSS selectors or XPath expressions (prefixed with "xpath:"). Waiting for
+ * one of them to appear doesn't need to watch the whole page: the leading part of the selector
+ * usually matches an ancestor that already exists (e.g. `#repo-content-pjax-container` in
+ * `#repo-content-pjax-container > div > .commit`), and only that ancestor's subtree can change the
+ * result.
+ */
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/** Prefix marking a selector as an XPath expression. */
+const XPATH_PREFIX = "xpath:";
+
+/**
+ * Queries for an element using either a CSS selector or XPath expression.
+ * XPath selectors must be prefixed with "xpath:".
+ *
+ * @param selector - CSS selector or XPath expression (prefixed with "xpath:").
+ * @returns The matching element, or null if not found (or the selector is invalid).
+ */
+export function queryElement(selector: string): HTMLElement | null {
+	try {
+		if (selector.startsWith(XPATH_PREFIX)) {
+			const result = document.evaluate(
+				selector.slice(XPATH_PREFIX.length),
+				document,
+				null,
+				XPathResult.FIRST_ORDERED_NODE_TYPE,
+				null
+			);
+			return result.singleNodeValue as HTMLElement | null;
+		}
+		return document.querySelector<HTMLElement>(selector);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Queries all elements matching a CSS selector or XPath expression.
+ * XPath selectors must be prefixed with "xpath:".
+ *
+ * @param selector - CSS selector or XPath expression (prefixed with "xpath:").
+ * @returns The matching elements.
+ */
+export function queryElements(selector: string): HTMLElement[] {
+	if (selector.startsWith(XPATH_PREFIX)) {
+		const element = queryElement(selector);
+		return element ? [element] : [];
+	}
+	return Array.from(document.querySelectorAll<HTMLElement>(selector));
+}
+
+// ============================================================================
+// Observation Roots
+// ============================================================================
+
+/**
+ * Splits a selector at its top-level separators, ignoring those inside brackets, parentheses
+ * and quotes.
+ *
+ * @param selector - The selector to split.
+ * @param isSeparator - Whether a character at nesting depth zero separates two parts.
+ * @returns The end offsets of every part but the last.
+ */
+function topLevelBoundaries(selector: string, isSeparator: (char: string) => boolean): number[] {
+	const boundaries: number[] = [];
+	let depth = 0;
+	let quote: string | null = null;
+
+	for (let i = 0; i < selector.length; i++) {
+		const char = selector[i];
+		if (quote) {
+			if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "[" || char === "(") {
+			depth++;
+		} else if (char === "]" || char === ")") {
+			depth--;
+		} else if (depth === 0 && isSeparator(char) && i > 0 && !isSeparator(selector[i - 1])) {
+			boundaries.push(i);
+		}
+	}
+
+	return boundaries;
+}
+
+/**
+ * Lists the ancestor selectors a selector is built from, longest first: the CSS selector without
+ * its last compound selectors, or the XPath expression without its last steps.
+ *
+ * @param selector - CSS selector or XPath expression (prefixed with "xpath:").
+ * @returns The ancestor selectors, in the same syntax as the selector.
+ */
+function ancestorSelectors(selector: string): string[] {
+	if (selector.startsWith(XPATH_PREFIX)) {
+		const xpath = selector.slice(XPATH_PREFIX.length);
+		return topLevelBoundaries(xpath, (char) => char === "/")
+			.map((end) => xpath.slice(0, end))
+			.filter((prefix) => /[^/]/.test(prefix))
+			.reverse()
+			.map((prefix) => `${XPATH_PREFIX}${prefix}`);
+	}
+
+	return topLevelBoundaries(selector, (char) => /[\s>+~]/.test(char))
+		.map((end) => selector.slice(0, end).trim())
+		.filter(Boolean)
+		.reverse();
+}
+
+/**
+ * Finds the closest existing element below which a selector can start matching.
+ * Falls back to `document.body` when no part of the selector matches yet.
+ *
+ * @param selector - CSS selector or XPath expression (prefixed with "xpath:").
+ * @returns The element to observe.
+ */
+export function findObservationRoot(selector: string): HTMLElement {
+	// A selector list can match below any of its alternatives
+	if (!selector.startsWith(XPATH_PREFIX) && topLevelBoundaries(selector, (char) => char === ",").length > 0) {
+		return document.body;
+	}
+
+	for (const ancestor of ancestorSelectors(selector)) {
+		const element = queryElement(ancestor);
+		if (element) return element;
+	}
+	return document.body;
+}
+
+/**
+ * Reduces a list of elements to those not contained in another one of them,
+ * so observing the result covers every element exactly once.
+ *
+ * @param elements - The elements to observe.
+ * @returns The outermost elements.
+ */
+export function outermostElements(elements: HTMLElement[]): HTMLElement[] {
+	const unique = [...new Set(elements)];
+	return unique.filter(
+		(element) => !unique.some((other) => other !== element && other.contains(element))
+	);
+}
+
+// ============================================================================
+// Waiting
+// ============================================================================
+
+/**
+ * Waits for a condition on the DOM to become true, re-checking only when the subtree of
+ * the observation root changes.
+ *
+ * @param condition - Function that returns a truthy value when the condition is met.
+ * @param rootSelector - Selector of the element whose subtree affects the condition.
+ * @param maxWaitMs - Maximum time to wait (milliseconds).
+ * @returns The result of the condition function, or null if the timeout occurs.
+ */
+export function waitForCondition<T>(
+	condition: () => T | null | undefined,
+	rootSelector: string,
+	maxWaitMs: number
+): Promise<T | null> {
+	const initial = condition();
+	if (initial) return Promise.resolve(initial);
+
+	return new Promise((resolve) => {
+		const finish = (result: T | null) => {
+			observer.disconnect();
+			clearTimeout(timeoutId);
+			resolve(result);
+		};
+
+		const observer = new MutationObserver(() => {
+			const result = condition();
+			if (result) finish(result);
+		});
+		const timeoutId = setTimeout(() => finish(null), maxWaitMs);
+
+		observer.observe(queryElement(rootSelector) ?? document.body, {
+			childList: true,
+			subtree: true,
+			attributes: true,
+		});
+	});
+}
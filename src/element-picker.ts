@@ -0,0 +1,151 @@
+/**
+ * Lets the user click an element on the page to get a selector for it.
+ *
+ * Used to define a button contribution without reading the page's markup: the picked element's
+ * selector is filled into a new contribution in the Options page. The selector prefers stable
+ * anchors (ids and class names without generated-looking numbers) and adds `:nth-child()` only
+ * where siblings would otherwise be ambiguous.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Id of the box outlining the element under the pointer. */
+const HIGHLIGHT_ID = "eons-picker-highlight";
+
+/** Id of the hint shown while picking. */
+const HINT_ID = "eons-picker-hint";
+
+/** Class names used by CSS-in-JS libraries, which change with every build. */
+const GENERATED_CLASS_PATTERN = /^(?:css|sc|jsx|emotion)-|\d{2,}/;
+
+/** Ids containing number runs are usually generated, e.g. `react-aria-123`. */
+const GENERATED_ID_PATTERN = /\d{2,}|^:/;
+
+// ============================================================================
+// Selector Building
+// ============================================================================
+
+/**
+ * Builds the selector step of an element within its parent: its tag and up to two stable class
+ * names, with its position if a sibling matches the same step.
+ *
+ * @param element - The element.
+ * @returns The compound selector.
+ */
+function selectorStep(element: Element): string {
+	const classes = Array.from(element.classList)
+		.filter((cls) => !GENERATED_CLASS_PATTERN.test(cls))
+		.slice(0, 2)
+		.map((cls) => `.${CSS.escape(cls)}`)
+		.join("");
+	const step = `${element.localName}${classes}`;
+
+	const siblings = Array.from(element.parentElement?.children ?? []);
+	if (siblings.filter((sibling) => sibling.matches(step)).length > 1) {
+		return `${step}:nth-child(${siblings.indexOf(element) + 1})`;
+	}
+	return step;
+}
+
+/**
+ * Builds a CSS selector matching an element, from its closest ancestor with a stable id (or the
+ * body) down, stopping as soon as the selector starts with a class name and is unique on the page.
+ *
+ * @param element - The element to build a selector for.
+ * @returns The CSS selector.
+ */
+export function buildSelector(element: Element): string {
+	const steps: string[] = [];
+
+	for (let current: Element | null = element; current && current !== document.body; current = current.parentElement) {
+		if (current.id && !GENERATED_ID_PATTERN.test(current.id)) {
+			steps.unshift(`#${CSS.escape(current.id)}`);
+			break;
+		}
+
+		// A bare tag name may be unique today but not after the next change; start from a class
+		const step = selectorStep(current);
+		steps.unshift(step);
+		if (step.includes(".") && document.querySelectorAll(steps.join(" > ")).length === 1) break;
+	}
+
+	return steps.join(" > ");
+}
+
+// ============================================================================
+// Picking
+// ============================================================================
+
+/**
+ * Lets the user pick an element: outlines the element under the pointer until it is clicked.
+ * The click is kept from the page; Escape cancels.
+ *
+ * @returns The clicked element, or null if picking was canceled.
+ */
+export function pickElement(): Promise<HTMLElement | null> {
+	document.getElementById(HIGHLIGHT_ID)?.remove();
+	document.getElementById(HINT_ID)?.remove();
+
+	const highlight = document.createElement("div");
+	highlight.id = HIGHLIGHT_ID;
+
+	const hint = document.createElement("div");
+	hint.id = HINT_ID;
+	hint.setAttribute("role", "status");
+	hint.textContent = "Click where the Open button should go · Esc to cancel";
+
+	document.body.append(highlight, hint);
+
+	return new Promise((resolve) => {
+		const isOwnElement = (target: EventTarget | null) => target === highlight || target === hint;
+
+		const onMouseMove = (event: MouseEvent) => {
+			if (!(event.target instanceof HTMLElement) || isOwnElement(event.target)) return;
+
+			const rect = event.target.getBoundingClientRect();
+			Object.assign(highlight.style, {
+				top: `${rect.top}px`,
+				left: `${rect.left}px`,
+				width: `${rect.width}px`,
+				height: `${rect.height}px`,
+			});
+			hint.textContent = buildSelector(event.target);
+		};
+
+		// Keep presses and clicks from reaching the page's own handlers
+		const swallow = (event: Event) => {
+			event.preventDefault();
+			event.stopPropagation();
+		};
+
+		const finish = (element: HTMLElement | null) => {
+			document.removeEventListener("mousemove", onMouseMove, true);
+			document.removeEventListener("mousedown", swallow, true);
+			document.removeEventListener("click", onClick, true);
+			document.removeEventListener("keydown", onKeyDown, true);
+			highlight.remove();
+			hint.remove();
+			resolve(element);
+		};
+
+		const onClick = (event: MouseEvent) => {
+			swallow(event);
+			if (event.target instanceof HTMLElement && !isOwnElement(event.target)) {
+				finish(event.target);
+			}
+		};
+
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (event.key !== "Escape") return;
+			swallow(event);
+			finish(null);
+		};
+
+		document.addEventListener("mousemove", onMouseMove, true);
+		document.addEventListener("mousedown", swallow, true);
+		document.addEventListener("click", onClick, true);
+		document.addEventListener("keydown", onKeyDown, true);
+	});
+}
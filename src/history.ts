@@ -0,0 +1,195 @@
+/**
+ * Launch history: every workspace opened through the extension, kept in local storage.
+ *
+ * The history is device-specific (workspace URLs and timestamps are of little use on another
+ * machine), so unlike the settings it lives in `storage.local`. Repeated launches of the same workspace
+ * URL are merged into one record carrying the latest timestamp. The history is pruned on every write
+ * according to the retention limits configured in the Options page; pinned launches are never pruned.
+ *
+ * Only the background worker writes the history: pages, the popup and the Options page ask it to by
+ * message (see messages.ts). It applies the writes one after another, so launches close together,
+ * e.g. from two tabs, don't overwrite each other's records.
+ */
+
+import browser from "webextension-polyfill";
+import type { ProfileLink } from "./launch";
+import { loadHistorySettings } from "./settings";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Key under which the launch history is stored in local storage. */
+const HISTORY_KEY = "launchHistory";
+
+/** Milliseconds per day, for age-based retention. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The latest write to the history; the next one starts after it has finished. */
+let historyWrite: Promise<void> = Promise.resolve();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A single recorded launch. */
+export interface LaunchRecord {
+	/** Unique identifier of the record. */
+	id: string;
+	/** When the workspace was opened (milliseconds since the epoch). */
+	timestamp: number;
+	/** The normalized repository URL. */
+	repoUrl: string;
+	/** The branch, if one was known. */
+	branchName?: string;
+	/** The profile the workspace was opened with. */
+	profileId: string;
+	/** The profile's label at launch time. */
+	profileLabel: string;
+	/** The rendered workspace URL. */
+	workspaceUrl: string;
+	/** Pinned launches are kept regardless of retention limits. */
+	pinned?: boolean;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Loads the launch history, most recent first.
+ *
+ * @returns The recorded launches, or an empty list if none exist or storage access fails.
+ */
+export async function loadLaunchHistory(): Promise<LaunchRecord[]> {
+	try {
+		const res = await browser.storage.local.get(HISTORY_KEY);
+		const history = res[HISTORY_KEY];
+		return Array.isArray(history) ? (history as LaunchRecord[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Persists the launch history after applying the retention limits.
+ *
+ * @param history - The launches, most recent first.
+ */
+async function saveLaunchHistory(history: LaunchRecord[]): Promise<void> {
+	const { maxEntries, maxAgeDays } = await loadHistorySettings();
+	const cutoff = Date.now() - maxAgeDays * DAY_MS;
+
+	let kept = 0;
+	const pruned = history.filter((record) => {
+		if (record.pinned) return true;
+		if (record.timestamp < cutoff || kept >= maxEntries) return false;
+		kept++;
+		return true;
+	});
+
+	await browser.storage.local.set({ [HISTORY_KEY]: pruned });
+}
+
+/**
+ * Queues a write to the history after the writes already queued, so each one starts from the history
+ * the previous one saved.
+ *
+ * @param write - Reads, changes and saves the history.
+ * @returns A promise settling when the write has finished.
+ */
+function queueHistoryWrite(write: () => Promise<void>): Promise<void> {
+	const queued = historyWrite.then(write);
+	historyWrite = queued.catch(() => undefined);
+	return queued;
+}
+
+/**
+ * Changes the history and saves it, after the writes already queued.
+ *
+ * @param update - Returns the changed history, most recent first.
+ */
+function updateLaunchHistory(update: (history: LaunchRecord[]) => LaunchRecord[]): Promise<void> {
+	return queueHistoryWrite(async () => saveLaunchHistory(update(await loadLaunchHistory())));
+}
+
+/**
+ * Adds a launch to the top of the history, replacing an earlier launch of the same workspace URL.
+ *
+ * @param record - The launch; it inherits the pinned state of the launch it replaces.
+ */
+function prependLaunch(record: LaunchRecord): Promise<void> {
+	return updateLaunchHistory((history) => {
+		const previous = history.find((entry) => entry.workspaceUrl === record.workspaceUrl);
+		const others = history.filter((entry) => entry.workspaceUrl !== record.workspaceUrl);
+		return [{ ...record, pinned: previous?.pinned || undefined }, ...others];
+	});
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Records that a workspace was opened.
+ *
+ * @param link - The profile link that was launched.
+ */
+export async function recordLaunch(link: ProfileLink): Promise<void> {
+	await prependLaunch({
+		id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+		timestamp: Date.now(),
+		repoUrl: link.context.repoUrl,
+		branchName: link.context.branchName,
+		profileId: link.profile.id,
+		profileLabel: link.profile.label,
+		workspaceUrl: link.workspaceUrl,
+	});
+}
+
+/**
+ * Finds the most recent launch of the same repository and branch with the same profile, i.e. the
+ * workspace a new launch of the link could resume.
+ *
+ * @param link - The profile link about to be launched.
+ * @returns The launch, or null if there is none.
+ */
+export async function findPreviousLaunch(link: ProfileLink): Promise<LaunchRecord | null> {
+	const history = await loadLaunchHistory();
+	return (
+		history.find(
+			(record) =>
+				record.repoUrl === link.context.repoUrl &&
+				record.branchName === link.context.branchName &&
+				record.profileId === link.profile.id
+		) ?? null
+	);
+}
+
+/**
+ * Records that a previously recorded launch was opened again from the history.
+ *
+ * @param record - The launch that was re-opened.
+ */
+export async function recordRelaunch(record: LaunchRecord): Promise<void> {
+	await prependLaunch({ ...record, timestamp: Date.now() });
+}
+
+/**
+ * Pins or unpins a recorded launch.
+ *
+ * @param id - The record id.
+ * @param pinned - Whether the launch should be pinned.
+ */
+export async function setLaunchPinned(id: string, pinned: boolean): Promise<void> {
+	await updateLaunchHistory((history) =>
+		history.map((record) => (record.id === id ? { ...record, pinned: pinned || undefined } : record))
+	);
+}
+
+/**
+ * Removes every recorded launch, including pinned ones.
+ */
+export async function clearLaunchHistory(): Promise<void> {
+	await queueHistoryWrite(() => browser.storage.local.remove(HISTORY_KEY));
+}
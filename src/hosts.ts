@@ -0,0 +1,148 @@
+/**
+ * Runtime access to self-managed Git hosts.
+ *
+ * Public hosts are granted and matched statically in the manifest. Self-managed hosts are added by
+ * the user at runtime: the extension requests an optional host permission for each of them and then
+ * registers the content script dynamically, so it injects exactly like it does on the public hosts.
+ */
+
+import browser from "webextension-polyfill";
+import type { CustomHost } from "./settings";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** ID prefix for dynamically registered content scripts. */
+const SCRIPT_ID_PREFIX = "eons-host-";
+
+/** Built content script and stylesheets, as referenced by the manifest after bundling. */
+const CONTENT_SCRIPT = {
+	JS: "src/content.js",
+	CSS: ["src/button.css", "src/style.css"],
+} as const;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Extracts the host name from user input, accepting either a bare host or a full URL.
+ *
+ * @param input - The value entered by the user (e.g. "gitlab.example.com" or "https://gitlab.example.com/group").
+ * @returns The lower-cased host (with port, if any).
+ * @throws If the input does not contain a valid host.
+ */
+export function parseHostInput(input: string): string {
+	const value = input.trim();
+	const url = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`);
+	if (!url.host || !url.hostname.includes(".")) {
+		throw new Error(`Invalid host: ${input}`);
+	}
+	return url.host.toLowerCase();
+}
+
+/**
+ * Builds the match pattern covering every page of a host.
+ *
+ * @param host - The host name.
+ * @returns The match pattern, used for both permissions and content script registration.
+ */
+export function hostMatchPattern(host: string): string {
+	// Match patterns do not accept ports; the permission covers every port of the host
+	return `*://${host.replace(/:\d+$/, "")}/*`;
+}
+
+/**
+ * Builds the id of the dynamically registered content script for a host.
+ *
+ * @param host - The host name.
+ * @returns The content script id.
+ */
+function scriptId(host: string): string {
+	return `${SCRIPT_ID_PREFIX}${host}`;
+}
+
+// ============================================================================
+// Permissions & Registration
+// ============================================================================
+
+/**
+ * Requests the optional host permission for a self-managed host.
+ * Must be called directly from a user gesture (e.g. a click handler), before any other `await`.
+ *
+ * @param host - The host name.
+ * @returns True if the permission was granted.
+ */
+export function requestHostAccess(host: string): Promise<boolean> {
+	return browser.permissions.request({ origins: [hostMatchPattern(host)] });
+}
+
+/**
+ * Requests the optional host permissions of several hosts at once, e.g. the APIs of the workspace
+ * platforms. Must be called directly from a user gesture (e.g. a click handler), before any other `await`.
+ *
+ * @param hosts - The host names.
+ * @returns True if every permission was granted.
+ */
+export function requestHostsAccess(hosts: string[]): Promise<boolean> {
+	return browser.permissions.request({ origins: hosts.map(hostMatchPattern) });
+}
+
+/**
+ * Checks whether the optional host permission of a self-managed host has been granted.
+ *
+ * @param host - The host name.
+ * @returns True if the extension may access the host.
+ */
+export function hasHostAccess(host: string): Promise<boolean> {
+	return browser.permissions.contains({ origins: [hostMatchPattern(host)] });
+}
+
+/**
+ * Releases the optional host permission of a removed host and unregisters its content script.
+ *
+ * @param host - The host name.
+ */
+export async function revokeHostAccess(host: string): Promise<void> {
+	try {
+		await browser.scripting.unregisterContentScripts({ ids: [scriptId(host)] });
+	} catch {
+		// Not registered
+	}
+	await browser.permissions.remove({ origins: [hostMatchPattern(host)] });
+}
+
+/**
+ * Brings the dynamically registered content scripts in line with the configured hosts.
+ * Hosts whose permission has not been granted (or was revoked in the browser) are skipped.
+ *
+ * @param hosts - The configured self-managed hosts.
+ */
+export async function syncHostContentScripts(hosts: CustomHost[]): Promise<void> {
+	const registered = await browser.scripting.getRegisteredContentScripts();
+	const stale = registered
+		.map((script) => script.id)
+		.filter((id) => id.startsWith(SCRIPT_ID_PREFIX));
+	if (stale.length > 0) {
+		await browser.scripting.unregisterContentScripts({ ids: stale });
+	}
+
+	const scripts = [];
+	for (const { host } of hosts) {
+		if (!(await hasHostAccess(host))) {
+			continue;
+		}
+		scripts.push({
+			id: scriptId(host),
+			matches: [hostMatchPattern(host)],
+			js: [CONTENT_SCRIPT.JS],
+			css: [...CONTENT_SCRIPT.CSS],
+			persistAcrossSessions: true,
+		});
+	}
+
+	if (scripts.length > 0) {
+		await browser.scripting.registerContentScripts(scripts);
+	}
+}
@@ -0,0 +1,250 @@
+/**
+ * Decides when the content script tries to inject its button.
+ *
+ * Git provider pages are single-page apps: the button's place appears some time after the page
+ * loads, and again after every client-side navigation. Instead of re-running the injector on every
+ * mutation anywhere in the page, the scheduler
+ *
+ *   1. runs the injector when a navigation is signaled: the initial load, GitHub's `turbo:load` /
+ *      `pjax:end`, `popstate` / `hashchange`, the Navigation API where the browser has it, or a
+ *      changed URL after the document title changes (which SPA routers such as GitLab's do on
+ *      every route change);
+ *   2. while buttons can still be placed, observes only the closest existing ancestors of the
+ *      selectors they can be placed into;
+ *   3. once no more buttons can be placed, disconnects those observers and only watches the
+ *      parents of the placed buttons, to put a button back should the page re-render that part.
+ *
+ * It counts what it does, so the cost of injection can be inspected from the toolbar popup.
+ */
+
+import { findObservationRoot, outermostElements } from "./dom";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Counters describing the scheduler's work on the current page. */
+export interface InjectionStats {
+	/** The page URL the counters were taken on. */
+	url: string;
+	/** Navigations detected, including the initial page load. */
+	navigations: number;
+	/** Injection runs started. */
+	runs: number;
+	/** Mutation observer callbacks received while waiting for a place to inject into. */
+	mutationCallbacks: number;
+	/** Elements currently observed for mutations while buttons can still be placed. */
+	observedRoots: number;
+	/** Buttons placed on the current page. */
+	placed: number;
+	/** Time from the last navigation until the first button was placed (milliseconds). */
+	lastTimeToPlaceMs: number | null;
+	/** Duration of the last injection run (milliseconds). */
+	lastRunMs: number | null;
+	/** Total time spent in injection runs since the page loaded (milliseconds). */
+	totalRunMs: number;
+}
+
+/** What the scheduler needs to know about the injector. */
+export interface InjectionSchedulerOptions {
+	/** Tries to inject the buttons; resolves to the containers of all buttons on the page. */
+	inject: () => Promise<HTMLElement[]>;
+	/** Selectors of the places buttons may still be injected into on the current page. */
+	targetSelectors: () => string[];
+	/** Delay for batching bursts of mutations into a single run (milliseconds). */
+	debounceMs: number;
+}
+
+/** Controls a running scheduler. */
+export interface InjectionScheduler {
+	/** Returns a snapshot of the counters. */
+	stats: () => InjectionStats;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Events GitHub fires on `document` after replacing the page content. */
+const GITHUB_NAVIGATION_EVENTS = ["turbo:load", "pjax:end"] as const;
+
+/** Events fired on `window` when the URL changes without a page load. */
+const HISTORY_EVENTS = ["popstate", "hashchange"] as const;
+
+/** The Navigation API, which some browsers expose as `window.navigation`. */
+type NavigationApi = Pick<EventTarget, "addEventListener">;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Creates a debounced version of a function.
+ *
+ * @param fn - The function to debounce.
+ * @param delay - The debounce delay in milliseconds.
+ * @returns The debounced function.
+ */
+function debounce<T extends (...args: unknown[]) => unknown>(
+	fn: T,
+	delay: number
+): (...args: Parameters<T>) => void {
+	let timeoutId: number | null = null;
+
+	return (...args: Parameters<T>) => {
+		if (timeoutId !== null) {
+			clearTimeout(timeoutId);
+		}
+		timeoutId = window.setTimeout(() => fn(...args), delay);
+	};
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Starts scheduling injection runs for the current page and every page navigated to.
+ *
+ * @param options - The injector and where it can place buttons.
+ * @returns The scheduler, for reading its counters.
+ */
+export function startInjectionScheduler(options: InjectionSchedulerOptions): InjectionScheduler {
+	const counters: InjectionStats = {
+		url: window.location.href,
+		navigations: 0,
+		runs: 0,
+		mutationCallbacks: 0,
+		observedRoots: 0,
+		placed: 0,
+		lastTimeToPlaceMs: null,
+		lastRunMs: null,
+		totalRunMs: 0,
+	};
+
+	let navigationStart = performance.now();
+	let running = false;
+	let rerunRequested = false;
+
+	// Watches the places buttons may appear
+	const targetObserver = new MutationObserver(() => {
+		counters.mutationCallbacks++;
+		scheduleRun();
+	});
+
+	// Watches the placed buttons' parents, in case the page re-renders them
+	const placementObserver = new MutationObserver(() => {
+		if (placedContainers.some((container) => !container.isConnected)) {
+			scheduleRun();
+		}
+	});
+
+	let placedContainers: HTMLElement[] = [];
+
+	/**
+	 * Observes the closest existing ancestors of the remaining target selectors,
+	 * and the parents of the placed buttons.
+	 */
+	const observe = () => {
+		targetObserver.disconnect();
+		placementObserver.disconnect();
+
+		const roots = outermostElements(options.targetSelectors().map(findObservationRoot));
+		for (const root of roots) {
+			targetObserver.observe(root, { childList: true, subtree: true });
+		}
+		counters.observedRoots = roots.length;
+
+		for (const container of placedContainers) {
+			if (container.parentElement) {
+				placementObserver.observe(container.parentElement, { childList: true });
+			}
+		}
+	};
+
+	/**
+	 * Runs the injector once (queuing one more run if asked while running) and
+	 * observes whatever remains to be placed.
+	 */
+	const run = async () => {
+		if (running) {
+			rerunRequested = true;
+			return;
+		}
+
+		running = true;
+		counters.runs++;
+		const startedAt = performance.now();
+
+		try {
+			placedContainers = await options.inject();
+			if (placedContainers.length > 0 && counters.placed === 0) {
+				counters.lastTimeToPlaceMs = Math.round(performance.now() - navigationStart);
+			}
+			counters.placed = placedContainers.length;
+			observe();
+		} catch (error) {
+			console.error(error);
+		} finally {
+			counters.lastRunMs = Math.round(performance.now() - startedAt);
+			counters.totalRunMs += counters.lastRunMs;
+			running = false;
+		}
+
+		if (rerunRequested) {
+			rerunRequested = false;
+			scheduleRun();
+		}
+	};
+
+	const scheduleRun = debounce(run, options.debounceMs);
+
+	/**
+	 * Starts over for a new page: resets the placement and runs the injector.
+	 */
+	const navigate = () => {
+		counters.navigations++;
+		counters.url = window.location.href;
+		counters.placed = 0;
+		navigationStart = performance.now();
+		scheduleRun();
+	};
+
+	/**
+	 * Treats a URL change as a navigation; other signals just re-run the injector.
+	 */
+	const onNavigationSignal = () => {
+		if (window.location.href !== counters.url) {
+			navigate();
+		} else {
+			scheduleRun();
+		}
+	};
+
+	for (const type of GITHUB_NAVIGATION_EVENTS) {
+		document.addEventListener(type, onNavigationSignal);
+	}
+	for (const type of HISTORY_EVENTS) {
+		window.addEventListener(type, onNavigationSignal);
+	}
+	(window as unknown as { navigation?: NavigationApi }).navigation?.addEventListener(
+		"navigatesuccess",
+		onNavigationSignal
+	);
+
+	// SPA routers update the title on route changes; only a changed URL counts as a navigation
+	new MutationObserver(() => {
+		if (window.location.href !== counters.url) navigate();
+	}).observe(document.head, { childList: true, subtree: true, characterData: true });
+
+	// Late resources may still render the target after DOMContentLoaded
+	window.addEventListener("load", onNavigationSignal);
+
+	if (document.readyState === "loading") {
+		document.addEventListener("DOMContentLoaded", navigate, { once: true });
+	} else {
+		navigate();
+	}
+
+	return { stats: () => ({ ...counters }) };
+}
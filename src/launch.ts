@@ -0,0 +1,242 @@
+/**
+ * Turns a Git provider URL into the workspace URLs of every configured profile.
+ *
+ * This is the launch pipeline shared by the content script (for the injected button) and the
+ * background worker (for the toolbar action and context menus): normalize the URL, extract the page
+ * context, pick the profile via the routing rules, and render each profile's Liquid template.
+ * A template that can't be rendered, or that safe mode rejects (see url-safety.ts), yields a link
+ * carrying the reason instead of a URL, so the button can show it rather than open something else.
+ */
+
+import type { SupportedApplication } from "./button-contributions";
+import { extractPageContext, type PageContext } from "./page-context";
+import { resolveParameterValues } from "./parameters";
+import { createApiPullRequestResolver } from "./pull-request";
+import { resolveRepositoryLocation, type PageResolvers, type PullRequestResolver } from "./repo-url";
+import { resolveRoutingRule } from "./routing";
+import {
+	DEFAULT_URL_SAFETY,
+	loadProfileSettings,
+	loadRoutingRules,
+	loadUrlSafetySettings,
+	orderProfilesByDefault,
+	type ParameterValues,
+	type RoutingRule,
+	type UrlSafetySettings,
+	type WorkspaceProfile,
+} from "./settings";
+import { renderSafeUrl, renderTemplate } from "./template";
+import { TEMPLATE_VARIABLES } from "./template-reference";
+import { checkWorkspaceUrl, templateHost } from "./url-safety";
+
+// ============================================================================
+// Template Rendering
+// ============================================================================
+
+/** A workspace profile together with the URL it renders to for the current page. */
+export interface ProfileLink {
+	profile: WorkspaceProfile;
+	/** The rendered URL; empty if rendering failed. */
+	workspaceUrl: string;
+	/** Why the URL couldn't be rendered, if it couldn't. */
+	error?: string;
+	/** The page context the URL was rendered from. */
+	context: PageContext;
+	/** The values of the profile's launch parameters the URL was rendered with. */
+	parameters?: ParameterValues;
+	/** The routing rule that selected this profile, if any. */
+	rule?: RoutingRule;
+}
+
+/** Every template variable unset, so safe mode only rejects variables that don't exist. */
+const UNSET_VARIABLES = Object.fromEntries(TEMPLATE_VARIABLES.map(({ name }) => [name, null]));
+
+/**
+ * Renders the workspace URL using Liquid.js templating.
+ * In safe mode, unknown variables are errors, outputs are percent-encoded, and the URL must be an
+ * http(s) URL on one of the allowed hosts or the host the template starts with.
+ *
+ * @param template - The Liquid template string (e.g. "{{ repoUrl }}").
+ * @param context - The page context, used as the template scope.
+ * @param safety - The URL safety settings.
+ * @param parameters - The values of the profile's launch parameters, added to the scope.
+ * @returns The fully rendered workspace URL.
+ * @throws If the template cannot be rendered or safe mode rejects the URL.
+ */
+export async function renderWorkspaceUrl(
+	template: string,
+	context: PageContext,
+	safety: UrlSafetySettings = DEFAULT_URL_SAFETY,
+	parameters: ParameterValues = {}
+): Promise<string> {
+	if (!safety.safeMode) {
+		return renderTemplate(template, { ...parameters, ...context });
+	}
+
+	const url = await renderSafeUrl(template, { ...UNSET_VARIABLES, ...parameters, ...context });
+	const fixedHost = templateHost(template);
+	checkWorkspaceUrl(url, fixedHost ? [...safety.allowedHosts, fixedHost] : safety.allowedHosts);
+	return url;
+}
+
+/**
+ * Renders a profile's workspace URL for a page context.
+ *
+ * @param profile - The profile.
+ * @param context - The page context, used as the template scope.
+ * @param safety - The URL safety settings.
+ * @param rule - The routing rule that selected the profile (optional).
+ * @param values - The values of the profile's launch parameters; the defaults where missing.
+ * @returns The profile link, carrying the reason instead of a URL if rendering failed.
+ */
+export async function renderProfileLink(
+	profile: WorkspaceProfile,
+	context: PageContext,
+	safety: UrlSafetySettings,
+	rule?: RoutingRule,
+	values?: ParameterValues
+): Promise<ProfileLink> {
+	const parameters = profile.parameters?.length ? resolveParameterValues(profile.parameters, values) : undefined;
+	try {
+		const workspaceUrl = await renderWorkspaceUrl(profile.urlTemplate, context, safety, parameters);
+		return { profile, workspaceUrl, context, parameters, rule };
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		return { profile, workspaceUrl: "", error: reason, context, parameters, rule };
+	}
+}
+
+// ============================================================================
+// Profile Resolution
+// ============================================================================
+
+/**
+ * Orders the profiles for the current page, applying the first matching routing rule.
+ * A rule either promotes one of the profiles to the primary action or, when it carries
+ * its own template, adds that template as the primary action.
+ *
+ * @param context - The page context the rules are matched against.
+ * @returns The profiles with the primary one first, and the rule that chose it (if any).
+ */
+async function resolveProfiles(
+	context: PageContext
+): Promise<{ profiles: WorkspaceProfile[]; rule?: RoutingRule }> {
+	const profiles = orderProfilesByDefault(await loadProfileSettings());
+	const rule = resolveRoutingRule(await loadRoutingRules(), context);
+
+	if (rule?.urlTemplate) {
+		const override = { id: rule.id, label: rule.label, urlTemplate: rule.urlTemplate };
+		return { profiles: [override, ...profiles], rule };
+	}
+
+	const selected = profiles.find((profile) => profile.id === rule?.profileId);
+	if (rule && selected) {
+		return {
+			profiles: [selected, ...profiles.filter((profile) => profile !== selected)],
+			rule,
+		};
+	}
+
+	return { profiles };
+}
+
+/**
+ * Renders the link of one profile for a page context, looking the profile up in the settings (or the
+ * matching routing rule's own template) rather than trusting a profile sent along with the request.
+ *
+ * @param profileId - The id of the profile.
+ * @param context - The page context, used as the template scope.
+ * @param values - The values of the profile's launch parameters (optional).
+ * @returns The profile link, or null if there is no such profile.
+ */
+export async function renderStoredProfileLink(
+	profileId: string,
+	context: PageContext,
+	values?: ParameterValues
+): Promise<ProfileLink | null> {
+	const { profiles, rule } = await resolveProfiles(context);
+	const index = profiles.findIndex((profile) => profile.id === profileId);
+	if (index < 0) return null;
+
+	const safety = await loadUrlSafetySettings();
+	return renderProfileLink(profiles[index], context, safety, index === 0 ? rule : undefined, values);
+}
+
+/**
+ * Renders the workspace URL of every configured profile for the current page.
+ *
+ * @param context - The page context, used as the template scope.
+ * @returns One link per profile, with the primary profile first.
+ */
+export async function renderProfileLinks(context: PageContext): Promise<ProfileLink[]> {
+	const { profiles, rule } = await resolveProfiles(context);
+	const safety = await loadUrlSafetySettings();
+	return Promise.all(
+		profiles.map((profile, index) => renderProfileLink(profile, context, safety, index === 0 ? rule : undefined))
+	);
+}
+
+// ============================================================================
+// Launch Pipeline
+// ============================================================================
+
+/**
+ * Combines a page resolver with the provider's API: the page is asked first, and the API is
+ * used when the page can't tell (or there is no page, e.g. for context menu links).
+ *
+ * @param pageUrl - The page (or link) URL.
+ * @param application - The Git provider the URL belongs to.
+ * @param resolvePullRequest - Resolves the PR/MR refs from the page (optional).
+ * @returns The combined resolver, or undefined if neither source is available.
+ */
+function withApiFallback(
+	pageUrl: string,
+	application: SupportedApplication,
+	resolvePullRequest?: PullRequestResolver
+): PullRequestResolver | undefined {
+	const resolveFromApi = createApiPullRequestResolver(pageUrl, application);
+	if (!resolvePullRequest || !resolveFromApi) {
+		return resolvePullRequest ?? resolveFromApi;
+	}
+
+	return async () => (await resolvePullRequest()) ?? (await resolveFromApi());
+}
+
+/**
+ * Builds the page context for a Git provider URL.
+ * Pull request refs the page can't provide are looked up through the provider's API
+ * where one is available.
+ *
+ * @param pageUrl - The page (or link) URL, after any contribution URL transformer.
+ * @param application - The Git provider the URL belongs to.
+ * @param resolvers - Resolve the PR/MR refs and the shown ref from the page (optional).
+ * @returns The page context used as the Liquid template scope.
+ */
+export async function buildPageContext(
+	pageUrl: string,
+	application: SupportedApplication,
+	resolvers: PageResolvers = {}
+): Promise<PageContext> {
+	const { repoUrl, ref, pullRequest } = await resolveRepositoryLocation(pageUrl, application, {
+		...resolvers,
+		pullRequest: withApiFallback(pageUrl, application, resolvers.pullRequest),
+	});
+	return extractPageContext(pageUrl, application, repoUrl, ref, pullRequest);
+}
+
+/**
+ * Resolves the workspace URLs of every profile for a Git provider URL.
+ *
+ * @param pageUrl - The page (or link) URL, after any contribution URL transformer.
+ * @param application - The Git provider the URL belongs to.
+ * @param resolvers - Resolve the PR/MR refs and the shown ref from the page (optional).
+ * @returns One link per profile, with the primary profile first.
+ */
+export async function resolveLaunchLinks(
+	pageUrl: string,
+	application: SupportedApplication,
+	resolvers: PageResolvers = {}
+): Promise<ProfileLink[]> {
+	const context = await buildPageContext(pageUrl, application, resolvers);
+	return renderProfileLinks(context);
+}
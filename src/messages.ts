@@ -0,0 +1,144 @@
+/**
+ * Messages exchanged between the background worker, the content script and the popup.
+ */
+
+import type { SupportedApplication } from "./button-contributions";
+import type { PageContext } from "./page-context";
+import type { ParameterValues, PickedElement } from "./settings";
+
+// ============================================================================
+// Message Types
+// ============================================================================
+
+/** Identifiers of the messages understood by the content script and the background worker. */
+export const MESSAGE_TYPES = {
+	/** Asks the content script for the workspace URLs of the current page. */
+	GET_LAUNCH_LINKS: "eons:get-launch-links",
+	/** Asks the background worker to open the repository shown in a tab. */
+	LAUNCH_TAB: "eons:launch-tab",
+	/** Asks the background worker to launch a workspace through its profile's platform API or reuse policy. */
+	LAUNCH_WORKSPACE: "eons:launch-workspace",
+	/** Tells the background worker that a page opened a workspace, to record it in the launch history. */
+	RECORD_LAUNCH: "eons:record-launch",
+	/** Tells the background worker that the popup re-opened a recorded launch. */
+	RECORD_RELAUNCH: "eons:record-relaunch",
+	/** Asks the background worker to pin or unpin a recorded launch. */
+	SET_LAUNCH_PINNED: "eons:set-launch-pinned",
+	/** Asks the background worker to clear the launch history. */
+	CLEAR_LAUNCH_HISTORY: "eons:clear-launch-history",
+	/** Asks the content script for its injection counters (see injection-scheduler.ts). */
+	GET_INJECTION_STATS: "eons:get-injection-stats",
+	/** Asks the content script to let the user pick an element on the page. */
+	START_ELEMENT_PICKER: "eons:start-element-picker",
+	/** Tells the background worker which element was picked, to fill it into the Options page. */
+	ELEMENT_PICKED: "eons:element-picked",
+	/** Tells the background worker which application a page of a host that isn't configured shows. */
+	REPORT_PAGE_APPLICATION: "eons:report-page-application",
+} as const;
+
+/** Requests the workspace URLs of every profile for the page shown in a tab. */
+export interface GetLaunchLinksMessage {
+	type: typeof MESSAGE_TYPES.GET_LAUNCH_LINKS;
+}
+
+/** Asks the background worker to open a tab's repository in the primary profile. */
+export interface LaunchTabMessage {
+	type: typeof MESSAGE_TYPES.LAUNCH_TAB;
+	tabId: number;
+}
+
+/**
+ * A profile link as a page sends it to the background worker, which looks the profile up and renders
+ * the link itself rather than trusting the page with a profile or a URL.
+ */
+export interface ProfileLinkRequest {
+	profileId: string;
+	/** The page context to render the profile's templates with. */
+	context: PageContext;
+	/** The values of the profile's launch parameters (optional). */
+	parameters?: ParameterValues;
+}
+
+/** Asks the background worker to launch a profile's workspace for a page and open it next to the sender's tab. */
+export interface LaunchWorkspaceMessage extends ProfileLinkRequest {
+	type: typeof MESSAGE_TYPES.LAUNCH_WORKSPACE;
+	/** Whether to open a new workspace regardless of the profile's reuse policy (e.g. with other parameters). */
+	newWorkspace?: boolean;
+}
+
+/** Reports that a page opened a profile's workspace itself. */
+export interface RecordLaunchMessage extends ProfileLinkRequest {
+	type: typeof MESSAGE_TYPES.RECORD_LAUNCH;
+}
+
+/** Reports that a recorded launch was opened again. */
+export interface RecordRelaunchMessage {
+	type: typeof MESSAGE_TYPES.RECORD_RELAUNCH;
+	recordId: string;
+}
+
+/** Pins or unpins a recorded launch. */
+export interface SetLaunchPinnedMessage {
+	type: typeof MESSAGE_TYPES.SET_LAUNCH_PINNED;
+	recordId: string;
+	pinned: boolean;
+}
+
+/** Removes every recorded launch. */
+export interface ClearLaunchHistoryMessage {
+	type: typeof MESSAGE_TYPES.CLEAR_LAUNCH_HISTORY;
+}
+
+/** Requests the injection counters of the page shown in a tab. */
+export interface GetInjectionStatsMessage {
+	type: typeof MESSAGE_TYPES.GET_INJECTION_STATS;
+}
+
+/** Starts the element picker in a tab. */
+export interface StartElementPickerMessage {
+	type: typeof MESSAGE_TYPES.START_ELEMENT_PICKER;
+}
+
+/** Reports the element picked on a page. */
+export interface ElementPickedMessage {
+	type: typeof MESSAGE_TYPES.ELEMENT_PICKED;
+	picked: PickedElement;
+}
+
+/** Reports the application a page shows; the worker takes the host from the sender. */
+export interface ReportPageApplicationMessage {
+	type: typeof MESSAGE_TYPES.REPORT_PAGE_APPLICATION;
+	application: SupportedApplication;
+}
+
+/** Any message understood by the content script or the background worker. */
+export type ContentMessage =
+	| GetLaunchLinksMessage
+	| LaunchTabMessage
+	| LaunchWorkspaceMessage
+	| RecordLaunchMessage
+	| RecordRelaunchMessage
+	| SetLaunchPinnedMessage
+	| ClearLaunchHistoryMessage
+	| GetInjectionStatsMessage
+	| StartElementPickerMessage
+	| ElementPickedMessage
+	| ReportPageApplicationMessage;
+
+/**
+ * Checks whether an incoming runtime message is one of ours, of the given type.
+ *
+ * @param message - The received message.
+ * @param type - The expected message type.
+ * @returns True if the message has the given type.
+ */
+export function isMessageOfType<T extends ContentMessage>(
+	message: unknown,
+	type: T["type"]
+): message is T {
+	return (
+		typeof message === "object" &&
+		message !== null &&
+		(message as { type?: unknown }).type === type
+	);
+}
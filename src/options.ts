@@ -1,112 +1,1258 @@
 /**
  * options.ts
- * 
+ *
  * Handles the logic for the extension’s Options page, where the user can configure
- * their preferred workspace URL template (e.g., to point to a custom dev environment).
- * 
+ * one or more named workspace profiles (e.g., Kasm, Coder, a staging Coder) and
+ * the self-managed Git hosts the extension should run on.
+ *
  * This script:
- *   1. Loads the currently stored URL template from the browser’s sync storage.
- *   2. Populates the settings form field with that URL.
- *   3. Validates user input when “Save” is clicked.
- *   4. Writes the new value back to browser storage if valid, and shows a short confirmation.
- * 
- * The stored value is later read by `injectEonsButton()` in content scripts
- * to generate correct workspace URLs for injected “Open” buttons.
+ *   1. Loads the stored profiles (or a default derived from the legacy URL template).
+ *   2. Renders one editable row per profile, plus the “default profile” selection.
+ *   3. Checks and previews URL templates as they are typed, next to a variable reference.
+ *   4. Validates user input when “Save” is clicked.
+ *   5. Writes the profiles back to browser storage if valid, and shows a short confirmation.
+ *      A profile's platform API token is kept in local storage; its origin is granted on save.
+ *      A profile's launch parameters become template variables, previewed with their defaults.
+ *   6. Edits the ordered routing rules that pick a profile or template per repository.
+ *   7. Adds and removes self-managed hosts, requesting host permissions at runtime.
+ *   8. Adds and overrides button contributions, filling in elements picked on a page.
+ *   9. Sets the label, icon and emphasis of the injected button.
+ *  10. Switches the safe URL rendering mode and edits the workspace hosts it allows.
+ *  11. Edits the launch history retention limits and clears the history on request.
+ *  12. Shows the keyboard shortcut currently assigned to opening a workspace.
+ *  13. Exports and imports all settings as a versioned JSON file.
+ *  14. Disables the sections whose settings are locked by an enterprise policy.
+ *
+ * The stored values are later read by `injectEonsButton()` in content scripts
+ * to generate correct workspace URLs for the injected “Open” split button.
  */
 
 import browser from 'webextension-polyfill'
+import { buttonContributions, type SupportedApplication } from './button-contributions'
+import { hasHostAccess, parseHostInput, requestHostAccess, requestHostsAccess, revokeHostAccess, syncHostContentScripts } from './hosts'
+import { renderWorkspaceUrl } from './launch'
+import { MESSAGE_TYPES, type ClearLaunchHistoryMessage } from './messages'
+import type { PageContext } from './page-context'
+import { parseProfileParameters, resolveParameterValues } from './parameters'
+import { platformApiHost } from './platforms'
+import { renderTemplate, toTemplateError, validateTemplate, type TemplateError } from './template'
+import { SAMPLE_CONTEXTS, TEMPLATE_FILTERS, TEMPLATE_TAGS, TEMPLATE_VARIABLES, type ReferenceEntry } from './template-reference'
+import {
+	createSettingId,
+	DEFAULT_BUTTON_APPEARANCE,
+	DEFAULT_URL_SAFETY,
+	DEFAULT_URL_TEMPLATE,
+	exportSettings,
+	importSettings,
+	loadButtonAppearance,
+	loadCustomContributions,
+	loadCustomHosts,
+	loadHistorySettings,
+	loadLockedSettings,
+	loadPlatformTokens,
+	loadProfileSettings,
+	saveButtonAppearance,
+	saveCustomContributions,
+	saveCustomHosts,
+	loadRoutingRules,
+	loadUrlSafetySettings,
+	saveHistorySettings,
+	savePlatformTokens,
+	saveProfileSettings,
+	saveRoutingRules,
+	saveUrlSafetySettings,
+	migrateSettings,
+	PICKED_ELEMENT_KEY,
+	STORAGE_KEYS,
+	takePickedElement,
+	type ButtonAppearance,
+	type ButtonEmphasis,
+	type CustomContribution,
+	type CustomHost,
+	type HistorySettings,
+	type ParameterValues,
+	type PickedElement,
+	type PlatformType,
+	type ProfileParameter,
+	type ReusePolicy,
+	type SettingKey,
+	type SettingsExport,
+	type ProfileSettings,
+	type RoutingRule,
+	type UrlSafetySettings,
+	type WorkspacePlatform,
+	type WorkspaceProfile,
+} from './settings'
+
+/**
+ * Value of the “Open with” option that selects the rule’s own override template.
+ */
+const TEMPLATE_TARGET = "__template__"
+
+/**
+ * The sample page context that template previews are rendered against.
+ */
+let previewContext: PageContext = SAMPLE_CONTEXTS[0].context
+
+/**
+ * Refresh callbacks of every template input on the page, re-run when the sample changes.
+ */
+const templateEditors = new Map<HTMLInputElement, () => void>()
+
+/**
+ * The template input that was focused last; reference entries are inserted there.
+ */
+let lastTemplateInput: HTMLInputElement | null = null
+
+/**
+ * The URL safety settings as currently entered, which workspace URL previews are rendered with.
+ */
+let previewUrlSafety: UrlSafetySettings = DEFAULT_URL_SAFETY
+
+/* =========================================================================================
+ *  1. Form Helpers
+ * =======================================================================================*/
+
+/**
+ * Shows a short-lived status message below the form.
+ */
+function showStatus(status: HTMLElement, message: string, kind: "success" | "error") {
+	status.textContent = message
+	status.className = `status show ${kind}`
+	// Errors stay up longer, since they explain what needs fixing
+	setTimeout(() => (status.className = "status"), kind === "error" ? 4000 : 1500)
+}
+
+/**
+ * Validates a URL entered by the user and returns its cleaned form.
+ * - Rejects anything that is not an HTTP(S) URL.
+ * - Removes any trailing slashes.
+ */
+function cleanUrl(value: string): string {
+	const url = new URL(value.trim())
+
+	// Enforce http(s) protocol (reject file:, ftp:, etc.)
+	if (!url.protocol.startsWith("http")) {
+		throw new Error("Only http(s) URLs allowed")
+	}
+
+	return url.toString().replace(/\/+$/, "")
+}
+
+/**
+ * Formats a template error with its position, e.g. “undefined filter: nope (line 1, column 12)”.
+ */
+function describeTemplateError(error: TemplateError): string {
+	return error.line ? `${error.message} (line ${error.line}, column ${error.column})` : error.message
+}
+
+/**
+ * Validates a template before it is stored verbatim.
+ * Throws with a message naming the offending profile or rule.
+ */
+function checkTemplate(template: string, owner: string): string {
+	const error = validateTemplate(template)
+	if (error) {
+		throw new Error(`${owner}: ${describeTemplateError(error)}`)
+	}
+	return template
+}
+
+/**
+ * Parses a JSON object of strings, as entered for container props or platform parameters.
+ * Returns null if the value is not such an object.
+ */
+function parseStringRecord(value: string): Record<string, string> | null {
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(value)
+	} catch {
+		return null
+	}
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed) || Object.values(parsed).some((entry) => typeof entry !== "string")) {
+		return null
+	}
+	return parsed as Record<string, string>
+}
+
+/**
+ * Returns the input inside a profile row that edits the given field.
+ */
+function field(row: HTMLElement, name: string): HTMLInputElement {
+	return row.querySelector(`[data-field="${name}"]`) as HTMLInputElement
+}
+
+/**
+ * Returns the trimmed value of a row field, or undefined if it is empty.
+ */
+function optionalValue(row: HTMLElement, name: string): string | undefined {
+	return field(row, name).value.trim() || undefined
+}
+
+/* =========================================================================================
+ *  2. Template Editor
+ * =======================================================================================*/
+
+/**
+ * What a template renders: a workspace URL (subject to the URL safety settings), a platform API
+ * request URL, the button label (which also sees `profileName`), or other text such as a request body.
+ */
+type TemplateKind = "url" | "request" | "label" | "text"
+
+/**
+ * Adds inline syntax checking and a live preview below a template input.
+ * The template is parsed on every keystroke; valid templates are rendered against the
+ * selected sample context and, for URL templates, flagged if the result is not an http(s) URL.
+ * Workspace URLs are rendered as the button renders them, so safe mode errors show here.
+ * A button label template is previewed with the default profile's name as `profileName`, and the
+ * templates of a profile with the default values of its launch parameters.
+ */
+function attachTemplateEditor(input: HTMLInputElement, kind: TemplateKind = "url", parameters: () => ParameterValues = () => ({})) {
+	const feedback = document.createElement("div")
+	feedback.className = "template-feedback"
+	const error = document.createElement("span")
+	error.className = "error"
+	const preview = document.createElement("span")
+	preview.className = "preview"
+	feedback.append(error, preview)
+	input.after(feedback)
+
+	let renderId = 0
+
+	const update = async () => {
+		const current = ++renderId
+		const syntaxError = validateTemplate(input.value)
+
+		input.classList.toggle("invalid", syntaxError !== null)
+		error.textContent = syntaxError ? describeTemplateError(syntaxError) : ""
+		preview.textContent = ""
+		preview.classList.remove("warning")
+		if (syntaxError) return
+
+		let rendered: string
+		try {
+			if (kind === "url") {
+				rendered = await renderWorkspaceUrl(input.value, previewContext, previewUrlSafety, parameters())
+			} else {
+				const scope = kind === "label" ? { ...previewContext, profileName: previewProfileName() } : { ...parameters(), ...previewContext }
+				rendered = await renderTemplate(input.value, scope)
+			}
+		} catch (renderError) {
+			rendered = ""
+			error.textContent = describeTemplateError(toTemplateError(renderError))
+		}
+
+		// Ignore results of renders superseded by a later keystroke
+		if (current !== renderId || !rendered) return
+
+		preview.textContent = `→ ${rendered}`
+		if ((kind === "url" || kind === "request") && !/^https?:\/\//i.test(rendered)) {
+			preview.classList.add("warning")
+			preview.textContent += " (not an http(s) URL)"
+		}
+	}
+
+	input.addEventListener("input", update)
+	input.addEventListener("focus", () => (lastTemplateInput = input))
+	templateEditors.set(input, update)
+	update()
+}
+
+/**
+ * Re-renders the previews of all template inputs that are still on the page.
+ */
+function refreshTemplateEditors() {
+	for (const [input, update] of templateEditors) {
+		if (input.isConnected) {
+			update()
+		} else {
+			templateEditors.delete(input)
+		}
+	}
+}
+
+/**
+ * Inserts text at the cursor of the last focused template input.
+ */
+function insertIntoTemplate(text: string) {
+	const input = lastTemplateInput
+	if (!input || !input.isConnected) return
+
+	const start = input.selectionStart ?? input.value.length
+	const end = input.selectionEnd ?? input.value.length
+	input.setRangeText(text, start, end, "end")
+	input.focus()
+	input.dispatchEvent(new Event("input"))
+}
+
+/**
+ * Renders the variable or filter reference in the sidebar.
+ */
+function renderReference(list: HTMLElement, entries: ReferenceEntry[], snippet: (name: string) => string) {
+	for (const entry of entries) {
+		const term = document.createElement("dt")
+		const code = document.createElement("code")
+		code.textContent = entry.name
+		code.title = `Insert ${snippet(entry.name)}`
+		code.addEventListener("mousedown", (event) => event.preventDefault())
+		code.addEventListener("click", () => insertIntoTemplate(snippet(entry.name)))
+		term.appendChild(code)
+
+		const description = document.createElement("dd")
+		description.textContent = entry.example ? `${entry.description} ${entry.example}` : entry.description
+
+		list.append(term, description)
+	}
+}
+
+/* =========================================================================================
+ *  3. Profile Rows
+ * =======================================================================================*/
+
+/**
+ * Appends an editable row for a profile, cloned from the `<template>` in options.html.
+ */
+function addProfileRow(list: HTMLElement, template: HTMLTemplateElement, profile: WorkspaceProfile, isDefault: boolean, token = "") {
+	const row = (template.content.firstElementChild as HTMLElement).cloneNode(true) as HTMLElement
+	row.dataset.profileId = profile.id
+
+	field(row, "label").value = profile.label
+	field(row, "icon").value = profile.icon || ""
+	field(row, "urlTemplate").value = profile.urlTemplate
+	field(row, "launchParameters").value = profile.parameters ? JSON.stringify(profile.parameters) : ""
+	field(row, "reusePolicy").value = profile.reusePolicy ?? "new"
+	field(row, "default").checked = isDefault
+	attachTemplateEditor(field(row, "urlTemplate"), "url", () => previewParameterValues(row))
+	fillPlatformFields(row, profile.platform, token)
+	field(row, "launchParameters").addEventListener("input", refreshTemplateEditors)
+
+	row.querySelector('[data-action="remove"]')?.addEventListener("click", () => {
+		// Always keep at least one profile around
+		if (list.children.length <= 1) return
+
+		const wasDefault = field(row, "default").checked
+		row.remove()
+		if (wasDefault) {
+			field(list.firstElementChild as HTMLElement, "default").checked = true
+		}
+	})
+
+	list.appendChild(row)
+}
+
+/**
+ * Reads and validates all profile rows.
+ * Throws if a row has an invalid URL template or icon URL.
+ * Templates are stored verbatim, so Liquid syntax (spaces, quotes, tags) survives.
+ */
+function readProfileRows(list: HTMLElement): ProfileSettings {
+	const rows = Array.from(list.children) as HTMLElement[]
+	let defaultProfileId = ""
+
+	const profiles = rows.map((row, index) => {
+		const label = field(row, "label").value.trim() || `Profile ${index + 1}`
+		const profile: WorkspaceProfile = {
+			id: row.dataset.profileId || createSettingId(),
+			label,
+			urlTemplate: checkTemplate(field(row, "urlTemplate").value.trim(), `Profile “${label}”`),
+		}
+
+		const icon = field(row, "icon").value.trim()
+		if (icon) {
+			try {
+				profile.icon = cleanUrl(icon)
+			} catch {
+				throw new Error(`Profile “${label}”: invalid icon URL`)
+			}
+		}
+
+		const platformType = field(row, "platformType").value as PlatformType
+		if (platformType !== "url") {
+			profile.platform = readPlatformFields(row, platformType, `Profile “${label}”`)
+		}
+
+		const launchParameters = optionalValue(row, "launchParameters")
+		if (launchParameters) {
+			profile.parameters = readLaunchParameters(launchParameters, `Profile “${label}”`)
+		}
+
+		const reusePolicy = field(row, "reusePolicy").value as ReusePolicy
+		if (reusePolicy !== "new") profile.reusePolicy = reusePolicy
+
+		if (field(row, "default").checked) {
+			defaultProfileId = profile.id
+		}
+
+		return profile
+	})
+
+	return { profiles, defaultProfileId: defaultProfileId || profiles[0].id }
+}
+
+/**
+ * Parses and validates the launch parameters entered for a profile.
+ * Throws with a message naming the profile if they are invalid.
+ */
+function readLaunchParameters(value: string, owner: string): ProfileParameter[] {
+	let parsed: unknown
+	try {
+		parsed = JSON.parse(value)
+	} catch {
+		throw new Error(`${owner}: launch parameters must be valid JSON`)
+	}
+	try {
+		return parseProfileParameters(parsed)
+	} catch (error) {
+		throw new Error(`${owner}: ${(error as Error).message}`)
+	}
+}
+
+/**
+ * Returns the default values of the launch parameters entered in a profile row, for previews.
+ * Invalid parameters are reported when saving; until then the previews go without them.
+ */
+function previewParameterValues(row: HTMLElement): ParameterValues {
+	const value = optionalValue(row, "launchParameters")
+	if (!value) return {}
+	try {
+		return resolveParameterValues(parseProfileParameters(JSON.parse(value)))
+	} catch {
+		return {}
+	}
+}
+
+/**
+ * Shows the platform fields of a profile row that apply to the selected platform.
+ */
+function showPlatformFields(row: HTMLElement) {
+	const type = field(row, "platformType").value
+	for (const element of row.querySelectorAll<HTMLElement>("[data-platforms]")) {
+		element.hidden = !(element.dataset.platforms ?? "").split(" ").includes(type)
+	}
+}
+
+/**
+ * Fills the platform fields of a profile row and keeps them matching the selected platform.
+ */
+function fillPlatformFields(row: HTMLElement, platform: WorkspacePlatform | undefined, token: string) {
+	field(row, "platformType").value = platform?.type ?? "url"
+	field(row, "baseUrl").value = platform?.baseUrl ?? ""
+	field(row, "template").value = platform?.template ?? ""
+	field(row, "workspaceName").value = platform?.workspaceName ?? ""
+	field(row, "parameters").value = platform?.parameters ? JSON.stringify(platform.parameters) : ""
+	field(row, "requestUrl").value = platform?.requestUrl ?? ""
+	field(row, "method").value = platform?.method ?? "POST"
+	field(row, "responseUrlPath").value = platform?.responseUrlPath ?? ""
+	field(row, "requestBody").value = platform?.requestBody ?? ""
+	field(row, "token").value = token
+
+	const parameters = () => previewParameterValues(row)
+	attachTemplateEditor(field(row, "workspaceName"), "text", parameters)
+	attachTemplateEditor(field(row, "parameters"), "text", parameters)
+	attachTemplateEditor(field(row, "requestUrl"), "request", parameters)
+	attachTemplateEditor(field(row, "requestBody"), "text", parameters)
+
+	field(row, "platformType").addEventListener("change", () => showPlatformFields(row))
+	showPlatformFields(row)
+}
+
+/**
+ * Reads and validates the platform fields of a profile row.
+ * Throws with a message naming the profile if a required field is missing or invalid.
+ */
+function readPlatformFields(row: HTMLElement, type: PlatformType, owner: string): WorkspacePlatform {
+	const platform: WorkspacePlatform = { type }
+
+	if (type === "rest") {
+		platform.requestUrl = checkTemplate(field(row, "requestUrl").value.trim(), owner)
+		if (!platformApiHost(platform)) {
+			throw new Error(`${owner}: the request URL must start with an http(s) origin`)
+		}
+		platform.method = field(row, "method").value
+		platform.responseUrlPath = optionalValue(row, "responseUrlPath")
+		const requestBody = optionalValue(row, "requestBody")
+		if (requestBody) platform.requestBody = checkTemplate(requestBody, owner)
+		return platform
+	}
+
+	try {
+		platform.baseUrl = cleanUrl(field(row, "baseUrl").value)
+	} catch {
+		throw new Error(`${owner}: invalid base URL`)
+	}
+	platform.template = optionalValue(row, "template")
+	if (type === "kasm" && !platform.template) {
+		throw new Error(`${owner}: the Kasm image ID is required`)
+	}
+	if (type === "coder") {
+		const workspaceName = optionalValue(row, "workspaceName")
+		if (workspaceName) platform.workspaceName = checkTemplate(workspaceName, owner)
+	}
+
+	const parameters = optionalValue(row, "parameters")
+	if (parameters) {
+		const templates = parseStringRecord(parameters)
+		if (!templates) {
+			throw new Error(`${owner}: parameters must be a JSON object of strings`)
+		}
+		Object.values(templates).forEach((template) => checkTemplate(template, owner))
+		platform.parameters = templates
+	}
+	return platform
+}
+
+/**
+ * Reads the API tokens entered for the profiles launching through a platform API.
+ */
+function readPlatformTokens(list: HTMLElement): Record<string, string> {
+	const tokens: Record<string, string> = {}
+	for (const row of Array.from(list.children) as HTMLElement[]) {
+		const token = field(row, "token").value.trim()
+		if (token && field(row, "platformType").value !== "url" && row.dataset.profileId) {
+			tokens[row.dataset.profileId] = token
+		}
+	}
+	return tokens
+}
+
+/* =========================================================================================
+ *  4. Routing Rules
+ * =======================================================================================*/
+
+/**
+ * Fills a rule’s “Open with” select with the profiles currently in the form,
+ * plus the option to use an override template. Keeps the current selection.
+ */
+function populateRuleTargets(select: HTMLSelectElement, profileList: HTMLElement, selected: string) {
+	select.replaceChildren()
+
+	for (const row of Array.from(profileList.children) as HTMLElement[]) {
+		const option = document.createElement("option")
+		option.value = row.dataset.profileId || ""
+		option.textContent = field(row, "label").value.trim() || "(unnamed profile)"
+		select.appendChild(option)
+	}
+
+	const templateOption = document.createElement("option")
+	templateOption.value = TEMPLATE_TARGET
+	templateOption.textContent = "Override template…"
+	select.appendChild(templateOption)
+
+	select.value = selected
+	if (select.selectedIndex === -1) select.selectedIndex = 0
+}
+
+/**
+ * Appends an editable row for a routing rule, cloned from the `<template>` in options.html.
+ */
+function addRuleRow(list: HTMLElement, template: HTMLTemplateElement, profileList: HTMLElement, rule: RoutingRule) {
+	const row = (template.content.firstElementChild as HTMLElement).cloneNode(true) as HTMLElement
+	row.dataset.ruleId = rule.id
+
+	for (const name of ["label", "host", "owner", "repo", "pattern", "urlTemplate"] as const) {
+		field(row, name).value = rule[name] || ""
+	}
+
+	const target = row.querySelector('[data-field="target"]') as HTMLSelectElement
+	const templateLabel = row.querySelector('[data-role="template"]') as HTMLElement
+	const updateTemplateVisibility = () => (templateLabel.hidden = target.value !== TEMPLATE_TARGET)
+
+	populateRuleTargets(target, profileList, rule.urlTemplate ? TEMPLATE_TARGET : rule.profileId || "")
+	updateTemplateVisibility()
+	attachTemplateEditor(field(row, "urlTemplate"))
+
+	// Profiles may have been added or renamed since the row was rendered
+	target.addEventListener("focus", () => populateRuleTargets(target, profileList, target.value))
+	target.addEventListener("change", updateTemplateVisibility)
+
+	row.querySelector('[data-action="up"]')?.addEventListener("click", () => {
+		row.previousElementSibling?.before(row)
+	})
+	row.querySelector('[data-action="down"]')?.addEventListener("click", () => {
+		row.nextElementSibling?.after(row)
+	})
+	row.querySelector('[data-action="remove"]')?.addEventListener("click", () => row.remove())
+
+	list.appendChild(row)
+}
+
+/**
+ * Reads and validates all rule rows, in their displayed order.
+ * Throws if a rule has an invalid regular expression or override template.
+ */
+function readRuleRows(list: HTMLElement): RoutingRule[] {
+	return (Array.from(list.children) as HTMLElement[]).map((row, index) => {
+		const rule: RoutingRule = {
+			id: row.dataset.ruleId || createSettingId(),
+			label: field(row, "label").value.trim() || `Rule ${index + 1}`,
+			host: optionalValue(row, "host")?.toLowerCase(),
+			owner: optionalValue(row, "owner"),
+			repo: optionalValue(row, "repo"),
+			pattern: optionalValue(row, "pattern"),
+		}
+
+		// Validate the regular expression before storing it
+		if (rule.pattern) {
+			try {
+				new RegExp(rule.pattern)
+			} catch {
+				throw new Error(`Rule “${rule.label}”: invalid URL regex`)
+			}
+		}
+
+		const target = (row.querySelector('[data-field="target"]') as HTMLSelectElement).value
+		if (target === TEMPLATE_TARGET) {
+			rule.urlTemplate = checkTemplate(field(row, "urlTemplate").value.trim(), `Rule “${rule.label}”`)
+		} else {
+			rule.profileId = target
+		}
+
+		// Drop empty criteria so the stored rule only lists what it matches on
+		for (const key of Object.keys(rule) as (keyof RoutingRule)[]) {
+			if (rule[key] === undefined) delete rule[key]
+		}
+
+		return rule
+	})
+}
+
+/* =========================================================================================
+ *  5. Self-Managed Hosts
+ * =======================================================================================*/
+
+/**
+ * Renders the list of self-managed hosts, each with a “Remove” button unless the list is locked by policy.
+ * Hosts whose permission is missing (e.g. after an import) get a “Grant Access” button.
+ */
+function renderHosts(
+	list: HTMLElement,
+	hosts: CustomHost[],
+	granted: Set<string>,
+	locked: boolean,
+	onRemove: (host: CustomHost) => void,
+	onGrant: (host: CustomHost) => void
+) {
+	list.replaceChildren()
+
+	for (const host of hosts) {
+		const item = document.createElement("li")
+
+		const name = document.createElement("span")
+		name.textContent = host.host
+
+		const provider = document.createElement("span")
+		provider.className = "provider"
+		provider.textContent = granted.has(host.host) ? host.provider : `${host.provider} · no access`
+
+		const actions = document.createElement("span")
+		actions.className = "actions"
+
+		if (!granted.has(host.host)) {
+			const grantBtn = document.createElement("button")
+			grantBtn.type = "button"
+			grantBtn.className = "secondary"
+			grantBtn.textContent = "Grant Access"
+			// Hosts set by policy still need the user's permission
+			grantBtn.dataset.policyExempt = ""
+			grantBtn.addEventListener("click", () => onGrant(host))
+			actions.appendChild(grantBtn)
+		}
+
+		if (!locked) {
+			const removeBtn = document.createElement("button")
+			removeBtn.type = "button"
+			removeBtn.className = "secondary"
+			removeBtn.textContent = "Remove"
+			removeBtn.addEventListener("click", () => onRemove(host))
+			actions.appendChild(removeBtn)
+		}
+
+		item.append(name, provider, actions)
+		list.appendChild(item)
+	}
+}
+
+/**
+ * Collects the hosts whose permission has been granted.
+ */
+async function grantedHosts(hosts: CustomHost[]): Promise<Set<string>> {
+	const granted = new Set<string>()
+	for (const { host } of hosts) {
+		if (await hasHostAccess(host)) granted.add(host)
+	}
+	return granted
+}
 
 /* =========================================================================================
- *  1. Constants
+ *  6. Button Contributions
  * =======================================================================================*/
 
 /**
- * The key under which the URL template is stored in the browser’s sync storage.
- * This key must be consistent across background, options, and content scripts.
+ * Appends an editable row for a button contribution, cloned from the `<template>` in options.html.
  */
-const KEY = "urlTemplate"
+function addContributionRow(list: HTMLElement, template: HTMLTemplateElement, contribution: CustomContribution) {
+	const row = (template.content.firstElementChild as HTMLElement).cloneNode(true) as HTMLElement
+
+	for (const name of ["id", "match", "selector", "insertBefore"] as const) {
+		field(row, name).value = contribution[name] || ""
+	}
+	field(row, "application").value = contribution.application
+	field(row, "containerType").value = contribution.containerType || ""
+	field(row, "containerProps").value = contribution.containerProps ? JSON.stringify(contribution.containerProps) : ""
+
+	row.querySelector('[data-action="remove"]')?.addEventListener("click", () => row.remove())
+
+	list.appendChild(row)
+	return row
+}
 
 /**
- * Default URL template used when:
- * - No value has been saved yet, or
- * - Browser storage fails to load.
+ * Parses the container styles and attributes of a contribution, given as a JSON object of strings.
+ * Throws with a message naming the offending contribution.
  */
-const DEFAULT_URL_TEMPLATE = "https://workspace.infrastructure.tech/#/cast/dev?kasm_url={{repoUrl}}"
+function readContainerProps(value: string, id: string): Record<string, string> | undefined {
+	if (!value) return undefined
+
+	const props = parseStringRecord(value)
+	if (!props) {
+		throw new Error(`Contribution “${id}”: container styles and attributes must be a JSON object of strings`)
+	}
+	return props
+}
+
+/**
+ * Reads and validates all contribution rows.
+ * Throws if a row lacks an id, repeats one, has an invalid regex, or adds a contribution without a selector.
+ */
+function readContributionRows(list: HTMLElement): CustomContribution[] {
+	const builtInIds = new Set(buttonContributions.map((contribution) => contribution.id))
+	const ids = new Set<string>()
+
+	return (Array.from(list.children) as HTMLElement[]).map((row, index) => {
+		const id = optionalValue(row, "id")
+		if (!id) throw new Error(`Contribution ${index + 1}: an id is required`)
+		if (ids.has(id)) throw new Error(`Contribution “${id}”: the id is used twice`)
+		ids.add(id)
+
+		const contribution: CustomContribution = {
+			id,
+			application: field(row, "application").value as SupportedApplication,
+			match: optionalValue(row, "match"),
+			selector: optionalValue(row, "selector"),
+			insertBefore: optionalValue(row, "insertBefore"),
+			containerType: (field(row, "containerType").value || undefined) as CustomContribution["containerType"],
+			containerProps: readContainerProps(field(row, "containerProps").value.trim(), id),
+		}
+
+		// Validate the regular expression before storing it
+		if (contribution.match) {
+			try {
+				new RegExp(contribution.match)
+			} catch {
+				throw new Error(`Contribution “${id}”: invalid URL regex`)
+			}
+		}
+
+		// Overrides may keep the built-in selector; new contributions need their own
+		if (!contribution.selector && !builtInIds.has(id)) {
+			throw new Error(`Contribution “${id}”: a selector is required`)
+		}
+
+		// Drop empty fields so an override only lists what it changes
+		for (const key of Object.keys(contribution) as (keyof CustomContribution)[]) {
+			if (contribution[key] === undefined) delete contribution[key]
+		}
+
+		return contribution
+	})
+}
+
+/**
+ * Suggests a contribution id for an element picked on a page, e.g. “custom-github-2”.
+ */
+function pickedContributionId(list: HTMLElement, picked: PickedElement): string {
+	const taken = new Set((Array.from(list.children) as HTMLElement[]).map((row) => field(row, "id").value.trim()))
+	let number = 1
+	while (taken.has(`custom-${picked.application}-${number}`)) number++
+	return `custom-${picked.application}-${number}`
+}
 
 /* =========================================================================================
- *  2. Initialization
+ *  7. Button Appearance
+ * =======================================================================================*/
+
+/**
+ * Returns the name of the profile currently selected as default in the profile list,
+ * which the “Open” button’s label shows as `profileName`.
+ */
+function previewProfileName(): string {
+	const row = document.querySelector('#profiles [data-field="default"]:checked')?.closest<HTMLElement>("[data-profile-id]")
+	return (row && field(row, "label").value.trim()) || "Default"
+}
+
+/**
+ * Reads and validates the button appearance from its inputs.
+ * Throws if the label template or the icon URL is invalid.
+ */
+function readButtonAppearance(label: HTMLInputElement, icon: HTMLInputElement, emphasis: HTMLSelectElement): ButtonAppearance {
+	const appearance: ButtonAppearance = {
+		label: checkTemplate(label.value.trim() || DEFAULT_BUTTON_APPEARANCE.label, "Button label"),
+		icon: "",
+		emphasis: emphasis.value as ButtonEmphasis,
+	}
+
+	if (icon.value.trim()) {
+		try {
+			appearance.icon = cleanUrl(icon.value)
+		} catch {
+			throw new Error("Button icon: must be an http(s) URL")
+		}
+	}
+	return appearance
+}
+
+/* =========================================================================================
+ *  8. URL Safety
+ * =======================================================================================*/
+
+/**
+ * Reads the URL safety settings from their inputs.
+ * Throws if an allowed host is invalid.
+ */
+function readUrlSafety(safeMode: HTMLInputElement, allowedHosts: HTMLInputElement): UrlSafetySettings {
+	const hosts = allowedHosts.value.split(/[\s,]+/).filter(Boolean).map((entry) => {
+		const wildcard = entry.startsWith("*.") ? "*." : ""
+		try {
+			return wildcard + parseHostInput(entry.slice(wildcard.length))
+		} catch {
+			throw new Error(`Allowed workspace hosts: “${entry}” is not a host name`)
+		}
+	})
+	return { safeMode: safeMode.checked, allowedHosts: [...new Set(hosts)] }
+}
+
+/* =========================================================================================
+ *  9. Launch History
+ * =======================================================================================*/
+
+/**
+ * Reads a retention limit, requiring a whole number of at least 1.
+ * Throws with a message naming the offending limit.
+ */
+function readLimit(input: HTMLInputElement, name: string): number {
+	const value = Number(input.value)
+	if (!Number.isInteger(value) || value < 1) {
+		throw new Error(`${name} must be a whole number of at least 1`)
+	}
+	return value
+}
+
+/**
+ * Reads the launch history retention limits from their inputs.
+ */
+function readHistorySettings(maxEntries: HTMLInputElement, maxAgeDays: HTMLInputElement): HistorySettings {
+	return {
+		maxEntries: readLimit(maxEntries, "Maximum launches"),
+		maxAgeDays: readLimit(maxAgeDays, "Maximum age"),
+	}
+}
+
+/* =========================================================================================
+ *  10. Import, Export & Policy
+ * =======================================================================================*/
+
+/**
+ * Offers a settings document for download as a JSON file.
+ */
+function downloadSettings(settings: SettingsExport) {
+	const blob = new Blob([JSON.stringify(settings, null, "\t")], { type: "application/json" })
+	const url = URL.createObjectURL(blob)
+
+	const link = document.createElement("a")
+	link.href = url
+	link.download = `eons-dev-launcher-settings-${new Date().toISOString().slice(0, 10)}.json`
+	link.click()
+
+	setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Reads, migrates and validates an imported settings file, including every template in it.
+ * Throws with a message describing what is invalid.
+ */
+async function readSettingsFile(file: File): Promise<SettingsExport> {
+	let data: unknown
+	try {
+		data = JSON.parse(await file.text())
+	} catch {
+		throw new Error("Invalid settings file: not valid JSON")
+	}
+
+	const settings = migrateSettings(data)
+	for (const profile of settings.profiles) {
+		checkTemplate(profile.urlTemplate, `Profile “${profile.label}”`)
+	}
+	for (const rule of settings.routingRules) {
+		if (rule.urlTemplate) checkTemplate(rule.urlTemplate, `Rule “${rule.label}”`)
+	}
+	checkTemplate(settings.buttonAppearance.label, "Button label")
+	return settings
+}
+
+/**
+ * Disables every control of an Options section whose settings are locked by policy
+ * (except those marked `data-policy-exempt`), and explains why under its heading.
+ */
+function lockSection(section: HTMLElement) {
+	section.classList.add("locked")
+	const controls = section.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLButtonElement>(
+		"input:not([data-policy-exempt]), select, button:not([data-policy-exempt])"
+	)
+	for (const control of controls) {
+		control.disabled = true
+	}
+
+	const note = document.createElement("p")
+	note.className = "hint locked-note"
+	note.textContent = "🔒 Locked by your organization’s policy."
+	section.querySelector("h2")?.after(note)
+}
+
+/* =========================================================================================
+ *  11. Initialization
  * =======================================================================================*/
 
 /**
  * Wait until the DOM is fully parsed before accessing elements.
- * The async callback allows use of `await browser.storage.sync.get()`.
+ * The async callback allows use of `await loadProfileSettings()`.
  */
 document.addEventListener("DOMContentLoaded", async () => {
 	/* -----------------------------------------------------------------------------
-	 *  Load stored configuration value from browser storage.
-	 *  Uses destructuring to directly extract `urlTemplate` (if present).
-	 * --------------------------------------------------------------------------- */
-	const { [KEY]: stored } = await browser.storage.sync.get(KEY)
-
-	/* -----------------------------------------------------------------------------
-	 *  Query DOM elements for input field, save button, and status label.
+	 *  Query DOM elements for the profile list, buttons, and status label.
 	 *  These are expected to exist in the options.html page.
 	 * --------------------------------------------------------------------------- */
-	const input = document.getElementById("urlTemplate") as HTMLInputElement
+	const list = document.getElementById("profiles") as HTMLDivElement
+	const template = document.getElementById("profileTemplate") as HTMLTemplateElement
+	const addBtn = document.getElementById("addProfile") as HTMLButtonElement
 	const saveBtn = document.getElementById("save") as HTMLButtonElement
 	const status = document.getElementById("status") as HTMLSpanElement
 
 	// If the UI isn’t ready (e.g., malformed options page), do nothing safely.
-	if (!input || !saveBtn) return
+	if (!list || !template || !addBtn || !saveBtn || !status) return
+
+	// Settings locked by an enterprise policy are shown read-only (see the end of this handler)
+	const locked = await loadLockedSettings()
+
+	/* -----------------------------------------------------------------------------
+	 *  Set up the template reference sidebar and the preview sample selection.
+	 * --------------------------------------------------------------------------- */
+	const sampleSelect = document.getElementById("sampleContext") as HTMLSelectElement
+	for (const sample of SAMPLE_CONTEXTS) {
+		sampleSelect.add(new Option(sample.label, sample.id))
+	}
+	sampleSelect.addEventListener("change", () => {
+		previewContext = SAMPLE_CONTEXTS.find((sample) => sample.id === sampleSelect.value)?.context ?? previewContext
+		refreshTemplateEditors()
+	})
+
+	renderReference(document.getElementById("variableReference") as HTMLElement, TEMPLATE_VARIABLES, (name) => `{{ ${name} }}`)
+	renderReference(document.getElementById("filterReference") as HTMLElement, TEMPLATE_FILTERS, (name) => ` | ${name}`)
+	renderReference(document.getElementById("tagReference") as HTMLElement, TEMPLATE_TAGS, (name) => `{% ${name} name = '' %}`)
+
+	/* -----------------------------------------------------------------------------
+	 *  Render the stored profiles (or the default derived from the legacy template).
+	 * --------------------------------------------------------------------------- */
+	const settings = await loadProfileSettings()
+	const platformTokens = await loadPlatformTokens()
+	for (const profile of settings.profiles) {
+		addProfileRow(list, template, profile, profile.id === settings.defaultProfileId, platformTokens[profile.id])
+	}
+
+	addBtn.addEventListener("click", () => {
+		const profile = { id: createSettingId(), label: "", urlTemplate: DEFAULT_URL_TEMPLATE }
+		addProfileRow(list, template, profile, false)
+	})
+
+	/* -----------------------------------------------------------------------------
+	 *  Render the routing rules in evaluation order.
+	 * --------------------------------------------------------------------------- */
+	const ruleList = document.getElementById("rules") as HTMLDivElement
+	const ruleTemplate = document.getElementById("ruleTemplate") as HTMLTemplateElement
+	const addRuleBtn = document.getElementById("addRule") as HTMLButtonElement
+
+	for (const rule of await loadRoutingRules()) {
+		addRuleRow(ruleList, ruleTemplate, list, rule)
+	}
+
+	addRuleBtn.addEventListener("click", () => {
+		addRuleRow(ruleList, ruleTemplate, list, { id: createSettingId(), label: "" })
+	})
 
 	/* -----------------------------------------------------------------------------
-	 *  Initialize the input field with either stored or default value.
+	 *  Self-managed hosts are saved immediately, because the permission prompt
+	 *  has to be tied to the click that added the host.
 	 * --------------------------------------------------------------------------- */
-	input.value = (stored as string) || DEFAULT_URL_TEMPLATE
+	const hostList = document.getElementById("hosts") as HTMLUListElement
+	const hostInput = document.getElementById("hostInput") as HTMLInputElement
+	const hostProvider = document.getElementById("hostProvider") as HTMLSelectElement
+	const addHostBtn = document.getElementById("addHost") as HTMLButtonElement
+	let hosts = await loadCustomHosts()
+
+	const showHosts = async () => {
+		renderHosts(hostList, hosts, await grantedHosts(hosts), locked.has(STORAGE_KEYS.CUSTOM_HOSTS), removeHost, grantHost)
+	}
+
+	const updateHosts = async (next: CustomHost[]) => {
+		hosts = next
+		await saveCustomHosts(hosts)
+		await syncHostContentScripts(hosts)
+		await showHosts()
+	}
+
+	const removeHost = async (host: CustomHost) => {
+		try {
+			await revokeHostAccess(host.host)
+		} catch (error) {
+			console.error(error)
+		}
+		await updateHosts(hosts.filter((entry) => entry.host !== host.host))
+		showStatus(status, `Removed ${host.host}`, "success")
+	}
+
+	const grantHost = async (host: CustomHost) => {
+		// Request the permission first: it must happen synchronously within the click
+		if (!(await requestHostAccess(host.host))) {
+			showStatus(status, `Permission for ${host.host} denied`, "error")
+			return
+		}
+		await syncHostContentScripts(hosts)
+		await showHosts()
+		showStatus(status, `Access to ${host.host} granted`, "success")
+	}
+
+	addHostBtn.addEventListener("click", async () => {
+		let host: string
+		try {
+			host = parseHostInput(hostInput.value)
+		} catch (error) {
+			console.error(error)
+			showStatus(status, "Invalid host", "error")
+			return
+		}
+
+		// Request the permission first: it must happen synchronously within the click
+		const granted = await requestHostAccess(host)
+		if (!granted) {
+			showStatus(status, `Permission for ${host} denied`, "error")
+			return
+		}
+
+		const provider = hostProvider.value as SupportedApplication
+		await updateHosts([...hosts.filter((entry) => entry.host !== host), { host, provider }])
+		hostInput.value = ""
+		showStatus(status, `Added ${host}`, "success")
+	})
+
+	await showHosts()
+	syncHostContentScripts(hosts).catch(console.error)
+
+	/* -----------------------------------------------------------------------------
+	 *  Render the user's button contributions. An element picked on a page arrives
+	 *  through local storage, also while this page is already open, and becomes a
+	 *  new row to review and save.
+	 * --------------------------------------------------------------------------- */
+	const contributionList = document.getElementById("contributions") as HTMLDivElement
+	const contributionTemplate = document.getElementById("contributionTemplate") as HTMLTemplateElement
+	const addContributionBtn = document.getElementById("addContribution") as HTMLButtonElement
+	const builtInIds = document.getElementById("builtInContributionIds") as HTMLDataListElement
+
+	for (const contribution of buttonContributions) {
+		builtInIds.appendChild(new Option(contribution.application, contribution.id))
+	}
+	for (const contribution of await loadCustomContributions()) {
+		addContributionRow(contributionList, contributionTemplate, contribution)
+	}
+
+	addContributionBtn.addEventListener("click", () => {
+		addContributionRow(contributionList, contributionTemplate, { id: "", application: "github" })
+	})
+
+	const addPickedElement = async () => {
+		const picked = await takePickedElement()
+		if (!picked || locked.has(STORAGE_KEYS.CUSTOM_CONTRIBUTIONS)) return
+
+		const row = addContributionRow(contributionList, contributionTemplate, {
+			id: pickedContributionId(contributionList, picked),
+			application: picked.application,
+			selector: picked.selector,
+		})
+		row.scrollIntoView({ behavior: "smooth", block: "center" })
+		field(row, "match").focus()
+		showStatus(status, `Picked an element on ${new URL(picked.url).host}; review the contribution and save`, "success")
+	}
+
+	browser.storage.onChanged.addListener((changes, areaName) => {
+		if (areaName === "local" && changes[PICKED_ELEMENT_KEY]?.newValue) {
+			addPickedElement().catch(console.error)
+		}
+	})
+	await addPickedElement()
+
+	/* -----------------------------------------------------------------------------
+	 *  The button appearance is saved with the other settings; its label is a
+	 *  template, previewed like the URL templates.
+	 * --------------------------------------------------------------------------- */
+	const buttonLabelInput = document.getElementById("buttonLabel") as HTMLInputElement
+	const buttonIconInput = document.getElementById("buttonIcon") as HTMLInputElement
+	const buttonEmphasisSelect = document.getElementById("buttonEmphasis") as HTMLSelectElement
+
+	const buttonAppearance = await loadButtonAppearance()
+	buttonLabelInput.value = buttonAppearance.label
+	buttonIconInput.value = buttonAppearance.icon
+	buttonEmphasisSelect.value = buttonAppearance.emphasis
+	attachTemplateEditor(buttonLabelInput, "label")
+
+	/* -----------------------------------------------------------------------------
+	 *  URL safety is saved with the other settings; the workspace URL previews
+	 *  follow the inputs as they change.
+	 * --------------------------------------------------------------------------- */
+	const urlSafeModeInput = document.getElementById("urlSafeMode") as HTMLInputElement
+	const urlAllowedHostsInput = document.getElementById("urlAllowedHosts") as HTMLInputElement
+
+	const urlSafety = await loadUrlSafetySettings()
+	urlSafeModeInput.checked = urlSafety.safeMode
+	urlAllowedHostsInput.value = urlSafety.allowedHosts.join(", ")
+	previewUrlSafety = urlSafety
+	refreshTemplateEditors()
+
+	const previewUrlSafetyInputs = () => {
+		try {
+			previewUrlSafety = readUrlSafety(urlSafeModeInput, urlAllowedHostsInput)
+			refreshTemplateEditors()
+		} catch {
+			// Reported when saving; keep previewing with the last valid hosts
+		}
+	}
+	urlSafeModeInput.addEventListener("change", previewUrlSafetyInputs)
+	urlAllowedHostsInput.addEventListener("input", previewUrlSafetyInputs)
+
+	/* -----------------------------------------------------------------------------
+	 *  Launch history retention is saved with the other settings; clearing the
+	 *  history takes effect immediately.
+	 * --------------------------------------------------------------------------- */
+	const maxEntriesInput = document.getElementById("historyMaxEntries") as HTMLInputElement
+	const maxAgeInput = document.getElementById("historyMaxAgeDays") as HTMLInputElement
+	const clearHistoryBtn = document.getElementById("clearHistory") as HTMLButtonElement
+
+	const historySettings = await loadHistorySettings()
+	maxEntriesInput.value = String(historySettings.maxEntries)
+	maxAgeInput.value = String(historySettings.maxAgeDays)
+
+	clearHistoryBtn.addEventListener("click", async () => {
+		if (!confirm("Clear the launch history, including pinned launches?")) return
+		const message: ClearLaunchHistoryMessage = { type: MESSAGE_TYPES.CLEAR_LAUNCH_HISTORY }
+		await browser.runtime.sendMessage(message)
+		showStatus(status, "Launch history cleared", "success")
+	})
+
+	/* -----------------------------------------------------------------------------
+	 *  The shortcut itself is assigned in the browser's extension shortcut settings.
+	 * --------------------------------------------------------------------------- */
+	const shortcut = document.getElementById("shortcut") as HTMLElement
+	const commands = await browser.commands.getAll()
+	shortcut.textContent = commands.find((command) => command.name === "open-workspace")?.shortcut || "not assigned"
+
+	/* -----------------------------------------------------------------------------
+	 *  Export the effective settings, or import a file (of any schema version)
+	 *  and reload the page to show the imported settings.
+	 * --------------------------------------------------------------------------- */
+	const exportBtn = document.getElementById("exportSettings") as HTMLButtonElement
+	const importBtn = document.getElementById("importSettings") as HTMLButtonElement
+	const importFile = document.getElementById("importFile") as HTMLInputElement
+
+	exportBtn.addEventListener("click", async () => {
+		downloadSettings(await exportSettings())
+	})
+
+	importBtn.addEventListener("click", () => importFile.click())
+	importFile.addEventListener("change", async () => {
+		const file = importFile.files?.[0]
+		importFile.value = ""
+		if (!file) return
+
+		try {
+			const skipped = await importSettings(await readSettingsFile(file))
+			await syncHostContentScripts(await loadCustomHosts())
+			sessionStorage.setItem("importStatus", skipped.length > 0
+				? `Settings imported, except those locked by policy (${skipped.join(", ")})`
+				: "Settings imported")
+			location.reload()
+		} catch (error) {
+			console.error(error)
+			showStatus(status, error instanceof Error ? error.message : "Invalid settings file", "error")
+		}
+	})
+
+	const importStatus = sessionStorage.getItem("importStatus")
+	if (importStatus) {
+		sessionStorage.removeItem("importStatus")
+		showStatus(status, importStatus, "success")
+	}
+
+	/* -----------------------------------------------------------------------------
+	 *  Sections list the settings they edit in `data-settings`; a section is
+	 *  read-only when any of them is locked by an enterprise policy.
+	 * --------------------------------------------------------------------------- */
+	for (const section of document.querySelectorAll<HTMLElement>("[data-settings]")) {
+		const keys = (section.dataset.settings ?? "").split(" ") as SettingKey[]
+		if (keys.some((key) => locked.has(key))) lockSection(section)
+	}
 
 	/* =====================================================================================
-	 *  3. Save Button Logic
+	 *  12. Save Button Logic
 	 * ===================================================================================*/
 
 	/**
 	 * Handles click events on the “Save” button.
-	 * - Validates that the entered text is a valid HTTP(S) URL.
-	 * - Removes any trailing slashes.
-	 * - Persists the cleaned URL into browser storage.
-	 * - Provides short user feedback (“Saved” or “Invalid URL”).
+	 * - Validates every profile’s template and icon URL, every rule, the history limits, every contribution,
+	 *   the button appearance and the allowed hosts.
+	 * - Persists the profiles, the default selection, the rules, the history limits, the contributions, the
+	 *   button appearance and the URL safety settings into browser storage,
+	 *   except for the settings locked by policy.
+	 * - Provides short user feedback (“Save successful” or what is invalid).
 	 */
 	saveBtn.addEventListener("click", async () => {
-		// Trim spaces and normalize user input
-		const url = input.value.trim()
-
 		try {
-			// Try parsing the URL to validate it
-			const urlToStore = new URL(url)
+			// Locked sections are read-only; their policy values must not be copied into sync storage
+			const profilesLocked = locked.has(STORAGE_KEYS.PROFILES) || locked.has(STORAGE_KEYS.DEFAULT_PROFILE_ID)
+			const profileSettings = profilesLocked ? null : readProfileRows(list)
+			const rules = locked.has(STORAGE_KEYS.ROUTING_RULES) ? null : readRuleRows(ruleList)
+			const limits = locked.has(STORAGE_KEYS.HISTORY_SETTINGS) ? null : readHistorySettings(maxEntriesInput, maxAgeInput)
+			const contributions = locked.has(STORAGE_KEYS.CUSTOM_CONTRIBUTIONS) ? null : readContributionRows(contributionList)
+			const appearance = locked.has(STORAGE_KEYS.BUTTON_APPEARANCE)
+				? null
+				: readButtonAppearance(buttonLabelInput, buttonIconInput, buttonEmphasisSelect)
+			const safety = locked.has(STORAGE_KEYS.URL_SAFETY) ? null : readUrlSafety(urlSafeModeInput, urlAllowedHostsInput)
 
-			// Enforce http(s) protocol (reject file:, ftp:, etc.)
-			if (!urlToStore.protocol.startsWith("http")) {
-				throw new Error("Only http(s) URLs allowed")
+			// Request the platforms' origins first: it must happen synchronously within the click
+			const profiles = profileSettings?.profiles ?? settings.profiles
+			const apiHosts = [...new Set(profiles.map((profile) => platformApiHost(profile.platform)).filter((host) => host !== null))]
+			if (apiHosts.length > 0 && !(await requestHostsAccess(apiHosts))) {
+				throw new Error(`Access to ${apiHosts.join(", ")} is needed to launch workspaces through their API`)
 			}
 
-			// Save cleaned URL (remove trailing slashes)
-			await browser.storage.sync.set({
-				[KEY]: urlToStore.toString().replace(/\/+$/, ""),
-			})
-
-			// Show short-lived success message
-			if (status) {
-				status.textContent = "Saved"
-			}
-			setTimeout(() => (status.textContent = ""), 1200)
+			if (profileSettings) await saveProfileSettings(profileSettings)
+			await savePlatformTokens(readPlatformTokens(list))
+			if (rules) await saveRoutingRules(rules)
+			if (limits) await saveHistorySettings(limits)
+			if (contributions) await saveCustomContributions(contributions)
+			if (appearance) await saveButtonAppearance(appearance)
+			if (safety) await saveUrlSafetySettings(safety)
+			showStatus(status, "Save successful", "success")
 		} catch (error) {
 			// Log developer-visible error to console
 			console.error(error)
-
-			// Show user-friendly validation error message
-			if (status) {
-				status.textContent = "Invalid URL"
-				setTimeout(() => (status.textContent = ""), 1500)
-			}
+			showStatus(status, error instanceof Error ? error.message : "Invalid settings", "error")
 		}
 	})
 })
@@ -0,0 +1,486 @@
+/**
+ * Extracts a structured description of the current Git provider page.
+ *
+ * The resulting `PageContext` is the scope in which workspace URL templates are rendered, so every
+ * field here is available as a Liquid variable (e.g. `{{ owner }}`, `{{ filePath }}`, `{{ lineRange }}`).
+ * Extraction is purely URL-based: DOM-derived information (such as a merge request's source branch
+ * or where a multi-segment branch name ends) is resolved by the caller and passed in through the
+ * normalized repository URL and the ref.
+ */
+
+import type { SupportedApplication } from "./button-contributions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Everything known about the current page, exposed to URL templates. */
+export interface PageContext {
+	/** The normalized repository URL (may include a branch tree path). */
+	repoUrl: string;
+	/** The ref being viewed (branch, tag or commit SHA; see `refType`), if one could be determined. */
+	branchName?: string;
+	/** What `branchName` names: a branch, a tag or a commit. */
+	refType?: RefType;
+	/** The repository owner: user, organization, or (nested) group/project path. */
+	owner: string;
+	/** The repository name. */
+	repo: string;
+	/** The host name of the Git provider (e.g. "github.com"). */
+	host: string;
+	/** The Git provider application. */
+	provider: SupportedApplication;
+	/** HTTPS clone URL of the repository. */
+	cloneUrlHttps: string;
+	/** SSH clone URL of the repository. */
+	cloneUrlSsh: string;
+	/** Pull request number on GitHub, Bitbucket and Azure DevOps pull request pages. */
+	prNumber?: number;
+	/** Merge request IID on GitLab merge request pages. */
+	mrIid?: number;
+	/** Commit SHA on commit pages. */
+	commitSha?: string;
+	/** Repository-relative path of the file on file (blob) pages. */
+	filePath?: string;
+	/** Selected line or line range on file pages, e.g. "42" or "10-20". */
+	lineRange?: string;
+	/** Pull/merge request pages: the repository the head branch lives in (a fork, or the repository itself). */
+	headRepoUrl?: string;
+	/** Pull/merge request pages: the branch with the changes under review. */
+	headBranch?: string;
+	/** Pull/merge request pages: the repository the changes are merged into. */
+	baseRepoUrl?: string;
+	/** Pull/merge request pages: the branch the changes are merged into. */
+	baseBranch?: string;
+}
+
+/** The kinds of ref a page can show. */
+export type RefType = "branch" | "tag" | "commit";
+
+/** A ref shown on a page: a branch, tag or commit. */
+export interface PageRef {
+	/** The full ref name, e.g. "feature/login-form", "v1.2.0" or a commit SHA. */
+	name: string;
+	/** What the name refers to. */
+	type: RefType;
+}
+
+/** The branches, and where known the repositories, that a pull or merge request merges. */
+export interface PullRequestRefs {
+	/** The branch with the changes under review. */
+	headBranch: string;
+	/** The repository the head branch lives in, if known. */
+	headRepoUrl?: string;
+	/** The branch the changes are merged into, if known. */
+	baseBranch?: string;
+	/** The repository the changes are merged into, if known. */
+	baseRepoUrl?: string;
+}
+
+/** Provider-specific fields parsed from a page URL. */
+type ProviderPageInfo = Omit<
+	PageContext,
+	"repoUrl" | "branchName" | "refType" | "provider" | keyof PullRequestRefs
+>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** First path segments of GitHub pages that are not repositories (e.g. /settings/profile). */
+const GITHUB_RESERVED_OWNERS = new Set([
+	"about",
+	"account",
+	"apps",
+	"codespaces",
+	"collections",
+	"dashboard",
+	"enterprise",
+	"enterprises",
+	"explore",
+	"features",
+	"issues",
+	"login",
+	"marketplace",
+	"new",
+	"notifications",
+	"orgs",
+	"organizations",
+	"pricing",
+	"pulls",
+	"search",
+	"settings",
+	"sponsors",
+	"topics",
+	"trending",
+	"users",
+]);
+
+/** First path segments of GitLab pages that are not projects (e.g. /dashboard/projects). */
+const GITLAB_RESERVED_GROUPS = new Set(["admin", "dashboard", "explore", "groups", "help", "search", "users"]);
+
+/** Providers whose file URLs spell out the full ref ahead of the file path (`/blob/<ref>/<path>`). */
+const REF_PATH_PROVIDERS = new Set<SupportedApplication>(["github", "gitlab", "gitea", "eons-infrastructure"]);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Splits a URL path into decoded, non-empty segments.
+ *
+ * @param pathname - The URL path.
+ * @returns The path segments.
+ */
+function pathSegments(pathname: string): string[] {
+	return pathname
+		.split("/")
+		.filter(Boolean)
+		.map((segment) => decodeURIComponent(segment));
+}
+
+/**
+ * Parses a positive integer from a path segment.
+ *
+ * @param value - The path segment.
+ * @returns The number, or undefined if the segment is not numeric.
+ */
+function parseNumber(value: string | undefined): number | undefined {
+	return value && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * Formats a start and optional end line as a line range.
+ *
+ * @param start - The first line.
+ * @param end - The last line (optional).
+ * @returns "start" or "start-end", or undefined if no start line is given.
+ */
+function formatLineRange(start?: string | null, end?: string | null): string | undefined {
+	if (!start) return undefined;
+	return end && end !== start ? `${start}-${end}` : start;
+}
+
+/**
+ * Corrects a file path parsed from a `/<ref>/<path>` URL, which assumes a single-segment ref:
+ * for a ref like "feature/login-form" the path starts with the remaining ref segments.
+ *
+ * @param filePath - The file path following the first ref segment.
+ * @param refName - The full ref name.
+ * @returns The repository-relative file path.
+ */
+function stripRefSegments(filePath: string, refName: string): string {
+	const remainder = refName.split("/").slice(1).join("/");
+	return remainder && filePath.startsWith(`${remainder}/`)
+		? filePath.slice(remainder.length + 1)
+		: filePath;
+}
+
+/**
+ * Builds the conventional HTTPS and SCP-style SSH clone URLs for a repository.
+ *
+ * @param host - The Git host.
+ * @param path - The repository path ("owner/repo").
+ * @returns The clone URLs.
+ */
+function conventionalCloneUrls(
+	host: string,
+	path: string
+): Pick<PageContext, "cloneUrlHttps" | "cloneUrlSsh"> {
+	return {
+		cloneUrlHttps: `https://${host}/${path}.git`,
+		cloneUrlSsh: `git@${host}:${path}.git`,
+	};
+}
+
+// ============================================================================
+// Provider Extractors
+// ============================================================================
+
+/**
+ * GitHub: /<owner>/<repo>[/pull/<n> | /commit/<sha> | /blob/<ref>/<path>]#L<start>[-L<end>]
+ */
+function extractGitHubPageInfo(url: URL): ProviderPageInfo | null {
+	const [owner, rawRepo, section, ...rest] = pathSegments(url.pathname);
+	if (!owner || !rawRepo || GITHUB_RESERVED_OWNERS.has(owner)) return null;
+
+	const repo = rawRepo.replace(/\.git$/, "");
+	const info: ProviderPageInfo = {
+		owner,
+		repo,
+		host: url.host,
+		...conventionalCloneUrls(url.host, `${owner}/${repo}`),
+	};
+
+	if (section === "pull") {
+		info.prNumber = parseNumber(rest[0]);
+	} else if (section === "commit") {
+		info.commitSha = rest[0];
+	} else if (section === "blob" && rest.length > 1) {
+		info.filePath = rest.slice(1).join("/");
+		const lines = url.hash.match(/^#L(\d+)(?:C\d+)?(?:-L(\d+))?/);
+		info.lineRange = formatLineRange(lines?.[1], lines?.[2]);
+	}
+
+	return info;
+}
+
+/**
+ * GitLab: /<group>[/<subgroup>...]/<project>[/-/merge_requests/<iid> | /-/commit/<sha> | /-/blob/<ref>/<path>]#L<start>[-<end>]
+ */
+function extractGitLabPageInfo(url: URL): ProviderPageInfo | null {
+	const segments = pathSegments(url.pathname);
+	const separator = segments.indexOf("-");
+	const projectPath = separator === -1 ? segments : segments.slice(0, separator);
+	const [section, ...rest] = separator === -1 ? [] : segments.slice(separator + 1);
+
+	if (projectPath.length < 2 || GITLAB_RESERVED_GROUPS.has(projectPath[0])) return null;
+
+	const owner = projectPath.slice(0, -1).join("/");
+	const repo = projectPath[projectPath.length - 1].replace(/\.git$/, "");
+	const info: ProviderPageInfo = {
+		owner,
+		repo,
+		host: url.host,
+		...conventionalCloneUrls(url.host, `${owner}/${repo}`),
+	};
+
+	if (section === "merge_requests") {
+		info.mrIid = parseNumber(rest[0]);
+	} else if (section === "commit") {
+		info.commitSha = rest[0];
+	} else if (section === "blob" && rest.length > 1) {
+		info.filePath = rest.slice(1).join("/");
+		const lines = url.hash.match(/^#L(\d+)(?:-(\d+))?/);
+		info.lineRange = formatLineRange(lines?.[1], lines?.[2]);
+	}
+
+	return info;
+}
+
+/**
+ * Gitea / Forgejo: /<owner>/<repo>[/pulls/<n> | /commit/<sha> | /src/(branch|tag|commit)/<ref>/<path>]#L<start>[-L<end>]
+ */
+function extractGiteaPageInfo(url: URL): ProviderPageInfo | null {
+	const [owner, rawRepo, section, ...rest] = pathSegments(url.pathname);
+	if (!owner || !rawRepo) return null;
+
+	const repo = rawRepo.replace(/\.git$/, "");
+	const info: ProviderPageInfo = {
+		owner,
+		repo,
+		host: url.host,
+		...conventionalCloneUrls(url.host, `${owner}/${repo}`),
+	};
+
+	if (section === "pulls") {
+		info.prNumber = parseNumber(rest[0]);
+	} else if (section === "commit") {
+		info.commitSha = rest[0];
+	} else if (section === "src") {
+		if (rest[0] === "commit") {
+			info.commitSha = rest[1];
+		}
+		if (rest.length > 2) {
+			info.filePath = rest.slice(2).join("/");
+			const lines = url.hash.match(/^#L(\d+)(?:-L(\d+))?/);
+			info.lineRange = formatLineRange(lines?.[1], lines?.[2]);
+		}
+	}
+
+	return info;
+}
+
+/**
+ * Bitbucket Cloud: /<workspace>/<repo>[/pull-requests/<n> | /commits/<sha> | /src/<ref>/<path>]#lines-<start>[:<end>]
+ */
+function extractBitbucketPageInfo(url: URL): ProviderPageInfo | null {
+	const [owner, repo, section, ...rest] = pathSegments(url.pathname);
+	if (!owner || !repo) return null;
+
+	const info: ProviderPageInfo = {
+		owner,
+		repo,
+		host: url.host,
+		...conventionalCloneUrls(url.host, `${owner}/${repo}`),
+	};
+
+	if (section === "pull-requests") {
+		info.prNumber = parseNumber(rest[0]);
+	} else if (section === "commits" && rest[0]) {
+		info.commitSha = rest[0];
+	} else if (section === "src" && rest.length > 1) {
+		info.filePath = rest.slice(1).join("/");
+		const lines = url.hash.match(/^#lines-(\d+)(?::(\d+))?/);
+		info.lineRange = formatLineRange(lines?.[1], lines?.[2]);
+	}
+
+	return info;
+}
+
+/**
+ * Bitbucket Server: /(projects/<KEY>|users/<user>)/repos/<repo>[/pull-requests/<n> | /commits/<sha> | /browse/<path>]#<start>[-<end>]
+ */
+function extractBitbucketServerPageInfo(url: URL): ProviderPageInfo | null {
+	const segments = pathSegments(url.pathname);
+	const reposIndex = segments.indexOf("repos");
+	if (reposIndex < 2 || !segments[reposIndex + 1]) return null;
+
+	const [scope, key] = segments.slice(reposIndex - 2, reposIndex);
+	const owner = scope === "users" ? `~${key}` : key;
+	const repo = segments[reposIndex + 1];
+	const [section, ...rest] = segments.slice(reposIndex + 2);
+	const contextPath = segments.slice(0, reposIndex - 2).join("/");
+	const base = contextPath ? `${url.host}/${contextPath}` : url.host;
+
+	const info: ProviderPageInfo = {
+		owner,
+		repo,
+		host: url.host,
+		cloneUrlHttps: `https://${base}/scm/${owner.toLowerCase()}/${repo}.git`,
+		cloneUrlSsh: `ssh://git@${url.hostname}:7999/${owner.toLowerCase()}/${repo}.git`,
+	};
+
+	if (section === "pull-requests") {
+		info.prNumber = parseNumber(rest[0]);
+	} else if (section === "commits" && rest[0]) {
+		info.commitSha = rest[0];
+	} else if (section === "browse" && rest.length > 0) {
+		info.filePath = rest.join("/");
+		const lines = url.hash.match(/^#(\d+)(?:-(\d+))?/);
+		info.lineRange = formatLineRange(lines?.[1], lines?.[2]);
+	}
+
+	return info;
+}
+
+/**
+ * Azure DevOps: /<org>/<project>/_git/<repo>[/pullrequest/<n> | /commit/<sha>]?path=<path>&line=<start>&lineEnd=<end>
+ */
+function extractAzureDevOpsPageInfo(url: URL): ProviderPageInfo | null {
+	const segments = pathSegments(url.pathname);
+	const gitIndex = segments.indexOf("_git");
+	if (gitIndex < 1 || !segments[gitIndex + 1]) return null;
+
+	// Legacy <org>.visualstudio.com hosts carry the organization in the host name
+	const scope = url.host.endsWith(".visualstudio.com")
+		? [url.host.split(".")[0], ...segments.slice(0, gitIndex)]
+		: segments.slice(0, gitIndex);
+	const organization = scope[0];
+	const project = scope[1] ?? segments[gitIndex + 1];
+	const repo = segments[gitIndex + 1];
+	const [section, id] = segments.slice(gitIndex + 2);
+
+	const info: ProviderPageInfo = {
+		owner: scope.join("/"),
+		repo,
+		host: url.host,
+		cloneUrlHttps: `${url.origin}/${segments.slice(0, gitIndex + 2).join("/")}`,
+		cloneUrlSsh: `git@ssh.dev.azure.com:v3/${organization}/${project}/${repo}`,
+	};
+
+	if (section === "pullrequest") {
+		info.prNumber = parseNumber(id);
+	} else if (section === "commit") {
+		info.commitSha = id;
+	}
+
+	const path = url.searchParams.get("path");
+	if (path && path !== "/") {
+		info.filePath = path.replace(/^\/+/, "");
+		info.lineRange = formatLineRange(
+			url.searchParams.get("line"),
+			url.searchParams.get("lineEnd")
+		);
+	}
+
+	return info;
+}
+
+/** URL-based page info extractors for each supported provider. */
+const PROVIDER_EXTRACTORS: Record<SupportedApplication, (url: URL) => ProviderPageInfo | null> = {
+	github: extractGitHubPageInfo,
+	gitlab: extractGitLabPageInfo,
+	bitbucket: extractBitbucketPageInfo,
+	"bitbucket-server": extractBitbucketServerPageInfo,
+	"azure-devops": extractAzureDevOpsPageInfo,
+	gitea: extractGiteaPageInfo,
+	"eons-infrastructure": extractGitLabPageInfo,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds the template context for the current page.
+ *
+ * @param pageUrl - The (possibly transformed) URL of the current page.
+ * @param provider - The Git provider the page belongs to.
+ * @param repoUrl - The normalized repository URL.
+ * @param ref - The resolved branch, tag or commit (optional).
+ * @param pullRequest - The refs of the pull/merge request shown on the page (optional).
+ * @returns The page context used as the Liquid template scope.
+ */
+export function extractPageContext(
+	pageUrl: string,
+	provider: SupportedApplication,
+	repoUrl: string,
+	ref: PageRef | null = null,
+	pullRequest: PullRequestRefs | null = null
+): PageContext {
+	let info: ProviderPageInfo | null = null;
+	let host = "";
+
+	try {
+		const url = new URL(pageUrl);
+		host = url.host;
+		info = PROVIDER_EXTRACTORS[provider](url);
+	} catch {
+		// Fall through to the minimal context below
+	}
+
+	const context: PageContext = {
+		owner: "",
+		repo: "",
+		host,
+		cloneUrlHttps: repoUrl,
+		cloneUrlSsh: "",
+		...info,
+		repoUrl,
+		provider,
+	};
+
+	if (ref) {
+		context.branchName = ref.name;
+		context.refType = ref.type;
+		if (ref.type === "commit" && !context.commitSha) {
+			context.commitSha = ref.name;
+		}
+		if (context.filePath && REF_PATH_PROVIDERS.has(provider)) {
+			context.filePath = stripRefSegments(context.filePath, ref.name);
+		}
+	}
+
+	if (pullRequest) {
+		Object.assign(context, pullRequest);
+	}
+
+	// Drop fields the page did not provide so templates see them as undefined
+	for (const key of Object.keys(context) as (keyof PageContext)[]) {
+		if (context[key] === undefined) delete context[key];
+	}
+
+	return context;
+}
+
+/**
+ * Checks whether a page context describes a repository, rather than e.g. a user profile,
+ * settings or search page on a supported host.
+ *
+ * @param context - The page context.
+ * @returns True if both the owner and the repository name are known.
+ */
+export function isRepositoryContext(context: PageContext): boolean {
+	return Boolean(context.owner && context.repo);
+}
@@ -0,0 +1,158 @@
+/**
+ * A form shown inside a web page, asking for the launch parameters of a profile before opening it
+ * (the button's "Open with options…" entry).
+ *
+ * Like the reuse dialog (see reuse-prompt.ts), it styles itself inline, so it looks the same on every
+ * Git provider and doesn't depend on the page's styles.
+ */
+
+import type { ParameterValues, ProfileParameter } from "./settings";
+
+/** What the form asks for. */
+export interface ParameterFormOptions {
+	/** The label of the profile being launched. */
+	profileLabel: string;
+	/** The profile's parameters. */
+	parameters: ProfileParameter[];
+	/** The values the form starts with, one per parameter. */
+	values: ParameterValues;
+}
+
+/**
+ * Shows the form in the center of the page and waits for the user to submit it.
+ *
+ * @param options - The profile, its parameters and their initial values.
+ * @returns The entered values, or null if the form was dismissed (Escape, "Cancel" or a click outside).
+ */
+export function askLaunchParameters(options: ParameterFormOptions): Promise<ParameterValues | null> {
+	const FORM_ID = "eons-launch-options";
+
+	document.getElementById(FORM_ID)?.remove();
+
+	return new Promise((resolve) => {
+		const overlay = document.createElement("div");
+		overlay.id = FORM_ID;
+		Object.assign(overlay.style, {
+			position: "fixed",
+			inset: "0",
+			zIndex: "2147483647",
+			display: "flex",
+			alignItems: "center",
+			justifyContent: "center",
+			background: "rgba(0, 0, 0, 0.4)",
+		});
+
+		const form = document.createElement("form");
+		form.setAttribute("role", "dialog");
+		form.setAttribute("aria-modal", "true");
+		form.setAttribute("aria-label", `Open in ${options.profileLabel} with options`);
+		Object.assign(form.style, {
+			minWidth: "280px",
+			maxWidth: "400px",
+			padding: "20px",
+			borderRadius: "8px",
+			background: "#2b303f",
+			color: "#f3f4f6",
+			font: "14px/1.4 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+			boxShadow: "0 8px 24px rgba(0, 0, 0, 0.35)",
+		});
+		overlay.appendChild(form);
+
+		const title = document.createElement("p");
+		Object.assign(title.style, { margin: "0 0 16px", fontWeight: "600" });
+		title.textContent = `Open in ${options.profileLabel}`;
+		form.appendChild(title);
+
+		const fieldStyle = {
+			boxSizing: "border-box",
+			width: "100%",
+			marginTop: "4px",
+			padding: "4px 8px",
+			border: "1px solid #6b7280",
+			borderRadius: "6px",
+			background: "#1f2330",
+			color: "inherit",
+			font: "inherit",
+		};
+
+		const inputs = new Map<string, HTMLInputElement | HTMLSelectElement>();
+		for (const parameter of options.parameters) {
+			const label = document.createElement("label");
+			Object.assign(label.style, { display: "block", margin: "0 0 12px" });
+			const value = options.values[parameter.name];
+
+			let input: HTMLInputElement | HTMLSelectElement;
+			if (parameter.type === "boolean") {
+				input = document.createElement("input");
+				input.type = "checkbox";
+				input.checked = value === true;
+				input.style.marginRight = "8px";
+				label.append(input, parameter.label ?? parameter.name);
+			} else {
+				if (parameter.type === "enum") {
+					input = document.createElement("select");
+					for (const option of parameter.options ?? []) {
+						input.add(new Option(option, option));
+					}
+				} else {
+					input = document.createElement("input");
+					input.type = "text";
+					input.spellcheck = false;
+				}
+				input.value = typeof value === "string" ? value : "";
+				Object.assign(input.style, fieldStyle);
+				label.append(parameter.label ?? parameter.name, input);
+			}
+
+			input.name = parameter.name;
+			inputs.set(parameter.name, input);
+			form.appendChild(label);
+		}
+
+		const close = (values: ParameterValues | null) => {
+			document.removeEventListener("keydown", onKeyDown, true);
+			overlay.remove();
+			resolve(values);
+		};
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "Escape") close(null);
+		};
+
+		const actions = document.createElement("div");
+		Object.assign(actions.style, { display: "flex", gap: "8px", marginTop: "16px" });
+		form.appendChild(actions);
+
+		for (const [type, label] of [["submit", "Open"], ["button", "Cancel"]] as const) {
+			const button = document.createElement("button");
+			button.type = type;
+			button.textContent = label;
+			Object.assign(button.style, {
+				padding: "6px 12px",
+				border: "1px solid #6b7280",
+				borderRadius: "6px",
+				background: type === "submit" ? "#3b4252" : "transparent",
+				color: "inherit",
+				font: "inherit",
+				cursor: "pointer",
+			});
+			if (type === "button") button.addEventListener("click", () => close(null));
+			actions.appendChild(button);
+		}
+
+		form.addEventListener("submit", (event) => {
+			event.preventDefault();
+			const values: ParameterValues = {};
+			for (const [name, input] of inputs) {
+				values[name] = input instanceof HTMLInputElement && input.type === "checkbox" ? input.checked : input.value;
+			}
+			close(values);
+		});
+		overlay.addEventListener("click", (event) => {
+			if (event.target === overlay) close(null);
+		});
+		document.addEventListener("keydown", onKeyDown, true);
+
+		document.body.appendChild(overlay);
+		(form.querySelector("input, select, button") as HTMLElement | null)?.focus();
+	});
+}
@@ -0,0 +1,175 @@
+/**
+ * Typed launch parameters of workspace profiles, e.g. the IDE, the machine size or a dotfiles
+ * repository.
+ *
+ * A profile declares its parameters with a type and a default; their values are template variables
+ * next to the page context, so the URL template and the platform templates can use them. Plain
+ * launches use the defaults. The "Open with options…" entry of the button asks for the values first
+ * (see parameter-form.ts), starting from those last used from the same repository.
+ */
+
+import type { ProfileLink } from "./launch";
+import type { PageContext } from "./page-context";
+import type { ParameterValues, ProfileParameter } from "./settings";
+import { TEMPLATE_VARIABLES } from "./template-reference";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** A valid parameter name: usable as a Liquid variable without quoting. */
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Names parameters can't take, since templates already use them for the page context. */
+const RESERVED_NAMES = new Set(TEMPLATE_VARIABLES.map(({ name }) => name));
+
+// ============================================================================
+// Definitions
+// ============================================================================
+
+/**
+ * Validates the parameter definitions of a profile, as entered in Options or set by a policy.
+ *
+ * @param value - The parsed JSON: an array of parameter definitions.
+ * @returns The definitions, with only the known fields.
+ * @throws With the reason if a definition is invalid.
+ */
+export function parseProfileParameters(value: unknown): ProfileParameter[] {
+	if (!Array.isArray(value)) {
+		throw new Error("parameters must be a JSON array");
+	}
+
+	const names = new Set<string>();
+	return value.map((entry: unknown) => {
+		const definition = (typeof entry === "object" && entry !== null ? entry : {}) as Record<string, unknown>;
+		const name = definition.name;
+		if (typeof name !== "string" || !PARAMETER_NAME.test(name)) {
+			throw new Error(`"${String(name)}" is not a valid parameter name; use letters, digits and underscores`);
+		}
+		if (RESERVED_NAMES.has(name)) {
+			throw new Error(`parameter "${name}" would hide the page's variable of the same name`);
+		}
+		if (names.has(name)) {
+			throw new Error(`parameter "${name}" is defined twice`);
+		}
+		names.add(name);
+
+		const parameter: ProfileParameter = { name, type: "string" };
+		if (typeof definition.label === "string" && definition.label.trim()) {
+			parameter.label = definition.label.trim();
+		}
+
+		let initial = definition.default;
+
+		switch (definition.type ?? "string") {
+			case "enum": {
+				const options = definition.options;
+				if (!Array.isArray(options) || options.length === 0 || options.some((option) => typeof option !== "string")) {
+					throw new Error(`parameter "${name}" needs "options", a list of strings`);
+				}
+				parameter.type = "enum";
+				parameter.options = options as string[];
+				if (initial !== undefined && !parameter.options.includes(initial as string)) {
+					throw new Error(`the default of parameter "${name}" is not one of its options`);
+				}
+				break;
+			}
+			case "string":
+				if (initial !== undefined && typeof initial !== "string") {
+					throw new Error(`the default of parameter "${name}" must be a string`);
+				}
+				break;
+			case "boolean":
+				parameter.type = "boolean";
+				// Enterprise policies can only set strings here (see managed_schema.json)
+				if (initial === "true" || initial === "false") initial = initial === "true";
+				if (initial !== undefined && typeof initial !== "boolean") {
+					throw new Error(`the default of parameter "${name}" must be true or false`);
+				}
+				break;
+			default:
+				throw new Error(`parameter "${name}" has an unknown type; use "enum", "string" or "boolean"`);
+		}
+
+		if (initial !== undefined) {
+			parameter.default = initial as string | boolean;
+		}
+		return parameter;
+	});
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Returns the default value of a parameter.
+ *
+ * @param parameter - The parameter definition.
+ * @returns The default, or the first option, "" or false if it has none. A boolean default may be
+ *   given as "true" or "false", as enterprise policies set it.
+ */
+function defaultValue(parameter: ProfileParameter): string | boolean {
+	if (parameter.type === "boolean") return parameter.default === true || parameter.default === "true";
+	if (parameter.default !== undefined) return parameter.default;
+	return parameter.type === "enum" ? (parameter.options?.[0] ?? "") : "";
+}
+
+/**
+ * Checks whether a value fits a parameter's type (and, for enums, its options).
+ *
+ * @param parameter - The parameter definition.
+ * @param value - The value.
+ * @returns True if the value can be used.
+ */
+function isValidValue(parameter: ProfileParameter, value: unknown): value is string | boolean {
+	switch (parameter.type) {
+		case "boolean":
+			return typeof value === "boolean";
+		case "enum":
+			return typeof value === "string" && (parameter.options ?? []).includes(value);
+		default:
+			return typeof value === "string";
+	}
+}
+
+/**
+ * Builds the values of a profile's parameters from given ones, e.g. remembered from an earlier launch
+ * whose profile has changed since. Missing and invalid values are replaced by the defaults.
+ *
+ * @param parameters - The profile's parameter definitions (optional).
+ * @param values - The given values (optional).
+ * @returns A value for every parameter.
+ */
+export function resolveParameterValues(
+	parameters: ProfileParameter[] | undefined,
+	values?: Record<string, unknown> | null
+): ParameterValues {
+	return Object.fromEntries(
+		(parameters ?? []).map((parameter) => {
+			const value = values?.[parameter.name];
+			return [parameter.name, isValidValue(parameter, value) ? value : defaultValue(parameter)];
+		})
+	);
+}
+
+/**
+ * Identifies the repository of a page context, to remember parameter values by.
+ *
+ * @param context - The page context.
+ * @returns The host and repository path, e.g. "github.com/eons-dev/browser-ext".
+ */
+export function repositoryKey(context: PageContext): string {
+	return `${context.host}/${context.owner}/${context.repo}`.toLowerCase();
+}
+
+/**
+ * Builds the scope a profile link's templates are rendered with: its parameter values and the page
+ * context.
+ *
+ * @param link - The profile link.
+ * @returns The template scope.
+ */
+export function templateScope(link: Pick<ProfileLink, "context" | "parameters">): Record<string, unknown> {
+	return { ...link.parameters, ...link.context };
+}
@@ -0,0 +1,359 @@
+/**
+ * Workspace platform adapters: how the workspace of a profile is launched.
+ *
+ * The "url" adapter opens the profile's rendered URL template, as every profile did before adapters
+ * existed. The others call the platform's API first and return the URL of the workspace to open:
+ *
+ * - Coder looks up the user's workspace for the repository (by a templated name), starts it if it is
+ *   stopped, or creates it from a template, and opens it in the Coder dashboard.
+ * - Kasm requests a new session of an image and opens it.
+ * - Generic REST sends a templated request and opens the URL found in the JSON response.
+ *
+ * Adapters run in the background worker, which the Options page grants access to the platform's
+ * origin, so the APIs don't need to allow cross-origin requests. Their API tokens are stored in local
+ * storage and passed in by the caller; this module neither reads storage nor depends on the browser,
+ * so the adapters can be tested against a local mock server.
+ */
+
+import type { ProfileLink } from "./launch";
+import { templateScope } from "./parameters";
+import type { PlatformType, UrlSafetySettings, WorkspacePlatform, WorkspaceProfile } from "./settings";
+import { renderJsonTemplate, renderTemplate } from "./template";
+import { dnsLabel } from "./template-filters";
+import { checkWorkspaceUrl, checkWorkspaceUrlScheme, templateHost } from "./url-safety";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Launches workspaces on one kind of platform. */
+export interface WorkspaceAdapter {
+	/** Name of the platform, shown in Options and in error messages. */
+	label: string;
+	/**
+	 * Launches the workspace of a profile link.
+	 *
+	 * @param link - The profile (with its platform settings) and the page context.
+	 * @param token - The profile's API token, or an empty string if none is stored.
+	 * @returns The URL of the workspace to open.
+	 * @throws If the platform is misconfigured or its API fails.
+	 */
+	launch(link: ProfileLink, token: string): Promise<string>;
+}
+
+/** The parts of a Coder workspace the adapter reads. */
+interface CoderWorkspace {
+	id: string;
+	name: string;
+	owner_name: string;
+	latest_build: { status: string };
+}
+
+/** The parts of a Coder template the adapter reads. */
+interface CoderTemplate {
+	id: string;
+	name: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Workspace name used when a Coder profile doesn't configure one. */
+const DEFAULT_CODER_WORKSPACE_NAME = "{{ repo }}-{{ branchName | default: 'main' }}";
+
+/** Coder limits workspace names to this many characters. */
+const CODER_NAME_MAX_LENGTH = 32;
+
+/** Build states of a Coder workspace that need a start build before it can be used. */
+const CODER_STOPPED_STATES = ["stopped", "failed", "canceled"];
+
+/** Path of the workspace URL in a generic REST response when the profile doesn't configure one. */
+const DEFAULT_RESPONSE_URL_PATH = "url";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Sends a JSON request to a platform API.
+ *
+ * @param url - The request URL.
+ * @param init - Method, headers and body of the request.
+ * @param allowNotFound - Whether a 404 response means "no such resource" rather than an error.
+ * @returns The parsed response body, or null for a permitted 404 or an empty response.
+ * @throws If the request fails or the response has an error status.
+ */
+async function requestJson<T>(url: string, init: RequestInit = {}, allowNotFound = false): Promise<T | null> {
+	const response = await fetch(url, {
+		...init,
+		headers: { Accept: "application/json", ...init.headers },
+	});
+	if (allowNotFound && response.status === 404) return null;
+	if (!response.ok) {
+		throw new Error(`${init.method ?? "GET"} ${url} failed with HTTP ${response.status}`);
+	}
+
+	const text = await response.text();
+	return text ? (JSON.parse(text) as T) : null;
+}
+
+/**
+ * Returns the base URL of a platform without trailing slashes.
+ *
+ * @param platform - The platform settings.
+ * @param label - The adapter's name, used in the error message.
+ * @returns The base URL.
+ * @throws If no base URL is configured.
+ */
+function requireBaseUrl(platform: WorkspacePlatform, label: string): string {
+	if (!platform.baseUrl) {
+		throw new Error(`${label}: no base URL configured`);
+	}
+	return platform.baseUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Renders every value of a map of Liquid templates.
+ *
+ * @param templates - The templates by name.
+ * @param link - The profile link whose page context and parameter values are the template scope.
+ * @returns The rendered values by name.
+ */
+async function renderTemplates(
+	templates: Record<string, string> | undefined,
+	link: ProfileLink
+): Promise<Record<string, string>> {
+	const entries = await Promise.all(
+		Object.entries(templates ?? {}).map(
+			async ([name, template]) => [name, await renderTemplate(template, templateScope(link))] as const
+		)
+	);
+	return Object.fromEntries(entries);
+}
+
+/**
+ * Reads a value from a parsed JSON document by a dot-separated path (e.g. "data.url").
+ *
+ * @param document - The parsed JSON document.
+ * @param path - The path; array indices are written as segments (e.g. "items.0.url").
+ * @returns The value, or undefined if the path doesn't exist.
+ */
+export function readJsonPath(document: unknown, path: string): unknown {
+	return path
+		.split(".")
+		.filter(Boolean)
+		.reduce<unknown>(
+			(value, key) =>
+				typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined,
+			document
+		);
+}
+
+/**
+ * Turns a rendered name into a valid Coder workspace name: lower-case letters, digits and single
+ * hyphens, at most 32 characters (see the `dns_label` filter).
+ *
+ * @param name - The rendered name.
+ * @returns The workspace name.
+ * @throws If nothing valid remains of the name.
+ */
+export function toCoderWorkspaceName(name: string): string {
+	const cleaned = dnsLabel(name, CODER_NAME_MAX_LENGTH);
+	if (!cleaned) {
+		throw new Error(`Coder: "${name}" is not a usable workspace name`);
+	}
+	return cleaned;
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/** Opens the rendered URL template. */
+const urlAdapter: WorkspaceAdapter = {
+	label: "URL only",
+	launch: async (link) => link.workspaceUrl,
+};
+
+/** Finds, starts or creates the user's Coder workspace for the repository. */
+const coderAdapter: WorkspaceAdapter = {
+	label: "Coder",
+	launch: async (link, token) => {
+		const platform = link.profile.platform ?? { type: "coder" };
+		const baseUrl = requireBaseUrl(platform, "Coder");
+		const api = <T>(path: string, init: RequestInit = {}, allowNotFound = false) =>
+			requestJson<T>(
+				`${baseUrl}/api/v2${path}`,
+				{
+					...init,
+					headers: { "Coder-Session-Token": token, "Content-Type": "application/json" },
+				},
+				allowNotFound
+			);
+
+		const name = toCoderWorkspaceName(
+			await renderTemplate(platform.workspaceName || DEFAULT_CODER_WORKSPACE_NAME, templateScope(link))
+		);
+		let workspace = await api<CoderWorkspace>(`/users/me/workspace/${encodeURIComponent(name)}`, {}, true);
+
+		if (!workspace) {
+			if (!platform.template) {
+				throw new Error(`Coder: workspace "${name}" doesn't exist and no template is configured to create it`);
+			}
+			const templates = (await api<CoderTemplate[]>("/templates")) ?? [];
+			const template = templates.find((candidate) => candidate.name === platform.template);
+			if (!template) {
+				throw new Error(`Coder: template "${platform.template}" not found`);
+			}
+
+			const parameters = await renderTemplates(platform.parameters, link);
+			workspace = await api<CoderWorkspace>("/users/me/workspaces", {
+				method: "POST",
+				body: JSON.stringify({
+					template_id: template.id,
+					name,
+					rich_parameter_values: Object.entries(parameters).map(([parameter, value]) => ({
+						name: parameter,
+						value,
+					})),
+				}),
+			});
+			if (!workspace) {
+				throw new Error(`Coder: creating workspace "${name}" returned no workspace`);
+			}
+		} else if (CODER_STOPPED_STATES.includes(workspace.latest_build.status)) {
+			await api(`/workspaces/${workspace.id}/builds`, {
+				method: "POST",
+				body: JSON.stringify({ transition: "start" }),
+			});
+		}
+
+		// The dashboard shows the build's progress and the workspace's apps once it is running
+		return `${baseUrl}/@${encodeURIComponent(workspace.owner_name)}/${encodeURIComponent(workspace.name)}`;
+	},
+};
+
+/** Requests a new Kasm session of an image. */
+const kasmAdapter: WorkspaceAdapter = {
+	label: "Kasm",
+	launch: async (link, token) => {
+		const platform = link.profile.platform ?? { type: "kasm" };
+		const baseUrl = requireBaseUrl(platform, "Kasm");
+		if (!platform.template) {
+			throw new Error("Kasm: no image id configured");
+		}
+
+		// Kasm authenticates with a key pair, stored as "key:secret"
+		const separator = token.indexOf(":");
+		if (separator < 0) {
+			throw new Error('Kasm: the API token must be given as "key:secret"');
+		}
+
+		const session = await requestJson<{ kasm_url?: string; error_message?: string }>(
+			`${baseUrl}/api/public/request_kasm`,
+			{
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					api_key: token.slice(0, separator),
+					api_key_secret: token.slice(separator + 1),
+					image_id: platform.template,
+					environment: await renderTemplates(platform.parameters, link),
+				}),
+			}
+		);
+
+		// Kasm reports failures in the body of a successful response
+		if (!session?.kasm_url) {
+			throw new Error(`Kasm: ${session?.error_message || "no session was created"}`);
+		}
+		return new URL(session.kasm_url, `${baseUrl}/`).toString();
+	},
+};
+
+/** Sends a templated request and opens the URL in the response. */
+const restAdapter: WorkspaceAdapter = {
+	label: "Generic REST",
+	launch: async (link, token) => {
+		const platform = link.profile.platform ?? { type: "rest" };
+		if (!platform.requestUrl) {
+			throw new Error("REST: no request URL configured");
+		}
+
+		const url = await renderTemplate(platform.requestUrl, templateScope(link));
+		const headers: Record<string, string> = {};
+		if (token) headers.Authorization = `Bearer ${token}`;
+		if (platform.requestBody) headers["Content-Type"] = "application/json";
+
+		const response = await requestJson<unknown>(url, {
+			method: platform.method || "POST",
+			headers,
+			body: platform.requestBody ? await renderJsonTemplate(platform.requestBody, templateScope(link)) : undefined,
+		});
+
+		const path = platform.responseUrlPath || DEFAULT_RESPONSE_URL_PATH;
+		const workspaceUrl = readJsonPath(response, path);
+		if (typeof workspaceUrl !== "string" || !workspaceUrl) {
+			throw new Error(`REST: the response has no URL at "${path}"`);
+		}
+		return new URL(workspaceUrl, url).toString();
+	},
+};
+
+/** The adapter of every platform type. */
+export const WORKSPACE_ADAPTERS: Record<PlatformType, WorkspaceAdapter> = {
+	url: urlAdapter,
+	coder: coderAdapter,
+	kasm: kasmAdapter,
+	rest: restAdapter,
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Checks whether a profile launches through a platform API rather than by opening its URL.
+ *
+ * @param profile - The workspace profile.
+ * @returns True if launching needs the background worker.
+ */
+export function usesPlatformApi(profile: WorkspaceProfile): boolean {
+	return (profile.platform?.type ?? "url") !== "url";
+}
+
+/**
+ * Determines the origin a profile's platform API is called on, for the host permission.
+ * A generic REST request URL must start with a fixed origin for this.
+ *
+ * @param platform - The platform settings.
+ * @returns The API's host (with port, if any), or null for URL-only profiles or unknown origins.
+ */
+export function platformApiHost(platform: WorkspacePlatform | undefined): string | null {
+	if (!platform || platform.type === "url") return null;
+
+	return templateHost(platform.type === "rest" ? platform.requestUrl : platform.baseUrl);
+}
+
+/**
+ * Launches the workspace of a profile link with the profile's platform adapter.
+ * The URL the platform returns must be an http(s) URL; in safe mode, it must also be on an allowed
+ * host, the host the profile's URL template starts with, or the platform API's host.
+ *
+ * @param link - The profile link.
+ * @param token - The profile's API token, or an empty string if none is stored.
+ * @param safety - The URL safety settings (optional).
+ * @returns The URL of the workspace to open.
+ * @throws If the platform is misconfigured, its API fails, or the URL is rejected.
+ */
+export async function launchWorkspace(link: ProfileLink, token: string, safety?: UrlSafetySettings): Promise<string> {
+	const url = await WORKSPACE_ADAPTERS[link.profile.platform?.type ?? "url"].launch(link, token);
+	if (safety?.safeMode) {
+		const ownHosts = [templateHost(link.profile.urlTemplate), platformApiHost(link.profile.platform)];
+		checkWorkspaceUrl(url, [...safety.allowedHosts, ...ownHosts.filter((host): host is string => host !== null)]);
+	} else {
+		checkWorkspaceUrlScheme(url);
+	}
+	return url;
+}
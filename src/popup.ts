@@ -0,0 +1,330 @@
+/**
+ * popup.ts
+ *
+ * Handles the logic for the toolbar popup, which lists recently opened workspaces.
+ *
+ * This script:
+ *   1. Opens the current tab's repository in the default profile, via the background worker.
+ *   2. Loads the launch history and groups it by repository, pinned launches first.
+ *   3. Filters the launches by repository, branch or profile as the user types.
+ *   4. Re-opens, copies or pins a launch.
+ *   5. Shows the current tab's injection counters in the diagnostics panel.
+ *   6. Starts the element picker, to place the button where the built-in selectors no longer match.
+ */
+
+import browser from 'webextension-polyfill'
+import { loadLaunchHistory, type LaunchRecord } from './history'
+import type { InjectionStats } from './injection-scheduler'
+import {
+	MESSAGE_TYPES,
+	type GetInjectionStatsMessage,
+	type LaunchTabMessage,
+	type RecordRelaunchMessage,
+	type SetLaunchPinnedMessage,
+	type StartElementPickerMessage,
+} from './messages'
+
+/* =========================================================================================
+ *  1. Formatting Helpers
+ * =======================================================================================*/
+
+/**
+ * Describes how long ago a launch happened, e.g. “5 min ago”.
+ */
+function formatAge(timestamp: number): string {
+	const minutes = Math.round((Date.now() - timestamp) / 60000)
+	if (minutes < 1) return "just now"
+	if (minutes < 60) return `${minutes} min ago`
+
+	const hours = Math.round(minutes / 60)
+	if (hours < 24) return `${hours} h ago`
+
+	return new Date(timestamp).toLocaleDateString()
+}
+
+/**
+ * Shows a message below the launch button; errors stay visible until the popup closes.
+ */
+function showStatus(status: HTMLElement, message: string, kind: "success" | "error") {
+	status.textContent = message
+	status.className = `status ${kind}`
+}
+
+/**
+ * Checks whether a launch matches every word of the search query.
+ */
+function matchesQuery(record: LaunchRecord, query: string): boolean {
+	const haystack = [record.repoUrl, record.branchName, record.profileLabel, record.workspaceUrl]
+		.filter(Boolean)
+		.join(" ")
+		.toLowerCase()
+	return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word))
+}
+
+/* =========================================================================================
+ *  2. History List
+ * =======================================================================================*/
+
+/**
+ * Groups launches by repository, keeping the most recently used repository first.
+ */
+function groupByRepository(records: LaunchRecord[]): Map<string, LaunchRecord[]> {
+	const groups = new Map<string, LaunchRecord[]>()
+	for (const record of records) {
+		const key = record.repoUrl.replace(/\/(?:(?:-\/)?tree|src\/branch)\/.*$/, "")
+		groups.set(key, [...(groups.get(key) ?? []), record])
+	}
+	return groups
+}
+
+/**
+ * Creates the row of a single launch with its “Open”, “Copy” and “Pin” actions.
+ */
+function createLaunchRow(record: LaunchRecord, status: HTMLElement, onChange: () => void): HTMLElement {
+	const row = document.createElement("div")
+	row.className = record.pinned ? "launch pinned" : "launch"
+	row.title = record.workspaceUrl
+
+	const meta = document.createElement("span")
+	meta.className = "meta"
+	meta.textContent = [record.branchName ?? "default branch", record.profileLabel, formatAge(record.timestamp)].join(" · ")
+
+	const actions = document.createElement("span")
+	actions.className = "actions"
+
+	const openBtn = document.createElement("button")
+	openBtn.type = "button"
+	openBtn.className = "secondary"
+	openBtn.textContent = "Open"
+	openBtn.addEventListener("click", async () => {
+		// The background worker writes the history (see history.ts); record first, as opening the tab
+		// may close the popup
+		const message: RecordRelaunchMessage = { type: MESSAGE_TYPES.RECORD_RELAUNCH, recordId: record.id }
+		await browser.runtime.sendMessage(message)
+		await browser.tabs.create({ url: record.workspaceUrl })
+		window.close()
+	})
+
+	const copyBtn = document.createElement("button")
+	copyBtn.type = "button"
+	copyBtn.className = "secondary"
+	copyBtn.textContent = "Copy"
+	copyBtn.addEventListener("click", async () => {
+		try {
+			await navigator.clipboard.writeText(record.workspaceUrl)
+			showStatus(status, "Workspace URL copied", "success")
+		} catch (error) {
+			console.error(error)
+			showStatus(status, "Could not copy the URL", "error")
+		}
+	})
+
+	const pinBtn = document.createElement("button")
+	pinBtn.type = "button"
+	pinBtn.className = "secondary"
+	pinBtn.textContent = record.pinned ? "Unpin" : "Pin"
+	pinBtn.addEventListener("click", async () => {
+		const message: SetLaunchPinnedMessage = { type: MESSAGE_TYPES.SET_LAUNCH_PINNED, recordId: record.id, pinned: !record.pinned }
+		await browser.runtime.sendMessage(message)
+		onChange()
+	})
+
+	actions.append(openBtn, copyBtn, pinBtn)
+	row.append(meta, actions)
+	return row
+}
+
+/**
+ * Renders a titled group of launches.
+ */
+function createGroup(title: string, records: LaunchRecord[], status: HTMLElement, onChange: () => void): HTMLElement {
+	const group = document.createElement("section")
+	group.className = "group"
+
+	const heading = document.createElement("div")
+	heading.className = "group-title"
+	heading.textContent = title
+	group.appendChild(heading)
+
+	for (const record of records) {
+		group.appendChild(createLaunchRow(record, status, onChange))
+	}
+	return group
+}
+
+/**
+ * Renders the launches matching the query, pinned launches first, grouped by repository.
+ */
+function renderHistory(list: HTMLElement, records: LaunchRecord[], query: string, status: HTMLElement, onChange: () => void) {
+	list.replaceChildren()
+
+	const matching = records.filter((record) => matchesQuery(record, query))
+	if (matching.length === 0) {
+		const empty = document.createElement("p")
+		empty.className = "empty"
+		empty.textContent = records.length === 0 ? "No workspaces opened yet." : "No matching workspaces."
+		list.appendChild(empty)
+		return
+	}
+
+	const sections: [string, LaunchRecord[]][] = [
+		["Pinned", matching.filter((record) => record.pinned)],
+		["Recent", matching.filter((record) => !record.pinned)],
+	]
+	for (const [title, sectionRecords] of sections) {
+		if (sectionRecords.length === 0) continue
+
+		const heading = document.createElement("h2")
+		heading.textContent = title
+		list.appendChild(heading)
+
+		for (const [repoUrl, group] of groupByRepository(sectionRecords)) {
+			list.appendChild(createGroup(repoUrl, group, status, onChange))
+		}
+	}
+}
+
+/* =========================================================================================
+ *  3. Diagnostics
+ * =======================================================================================*/
+
+/**
+ * Formats a duration in milliseconds, or a dash if it wasn't measured.
+ */
+function formatMs(value: number | null): string {
+	return value === null ? "–" : `${value} ms`
+}
+
+/**
+ * Renders the injection counters of a tab as a definition list.
+ */
+function renderDiagnostics(list: HTMLElement, stats: InjectionStats | null) {
+	list.replaceChildren()
+
+	if (!stats) {
+		const empty = document.createElement("p")
+		empty.className = "empty"
+		empty.textContent = "The launcher doesn’t run on this page."
+		list.appendChild(empty)
+		return
+	}
+
+	const rows: [string, string][] = [
+		["Buttons placed", String(stats.placed)],
+		["Time to place", formatMs(stats.lastTimeToPlaceMs)],
+		["Navigations", String(stats.navigations)],
+		["Injection runs", String(stats.runs)],
+		["Last run", formatMs(stats.lastRunMs)],
+		["Total run time", formatMs(stats.totalRunMs)],
+		["Mutation callbacks", String(stats.mutationCallbacks)],
+		["Observed elements", String(stats.observedRoots)],
+	]
+	for (const [label, value] of rows) {
+		const term = document.createElement("dt")
+		term.textContent = label
+		const description = document.createElement("dd")
+		description.textContent = value
+		list.append(term, description)
+	}
+}
+
+/**
+ * Asks the content script of a tab for its injection counters.
+ */
+async function loadDiagnostics(tabId: number): Promise<InjectionStats | null> {
+	const message: GetInjectionStatsMessage = { type: MESSAGE_TYPES.GET_INJECTION_STATS }
+	try {
+		return (await browser.tabs.sendMessage(tabId, message)) ?? null
+	} catch {
+		// No content script in the tab
+		return null
+	}
+}
+
+/**
+ * Asks the content script of a tab to start the element picker.
+ * Resolves to false if the tab has no content script or isn't on a supported host.
+ */
+async function startElementPicker(tabId: number): Promise<boolean> {
+	const message: StartElementPickerMessage = { type: MESSAGE_TYPES.START_ELEMENT_PICKER }
+	try {
+		return (await browser.tabs.sendMessage(tabId, message)) === true
+	} catch {
+		return false
+	}
+}
+
+/* =========================================================================================
+ *  4. Initialization
+ * =======================================================================================*/
+
+document.addEventListener("DOMContentLoaded", async () => {
+	const launchBtn = document.getElementById("launchTab") as HTMLButtonElement
+	const settingsBtn = document.getElementById("openSettings") as HTMLButtonElement
+	const search = document.getElementById("search") as HTMLInputElement
+	const list = document.getElementById("history") as HTMLDivElement
+	const status = document.getElementById("status") as HTMLSpanElement
+	const diagnostics = document.getElementById("diagnostics") as HTMLDetailsElement
+	const diagnosticsList = document.getElementById("diagnosticsList") as HTMLElement
+	const pickBtn = document.getElementById("pickElement") as HTMLButtonElement
+
+	if (!launchBtn || !settingsBtn || !search || !list || !status || !diagnostics || !diagnosticsList || !pickBtn) return
+
+	/* -----------------------------------------------------------------------------
+	 *  The background worker resolves and opens the current tab's repository,
+	 *  exactly like a context menu launch.
+	 * --------------------------------------------------------------------------- */
+	launchBtn.addEventListener("click", async () => {
+		const [tab] = await browser.tabs.query({ active: true, currentWindow: true })
+		if (tab?.id === undefined) return
+
+		const message: LaunchTabMessage = { type: MESSAGE_TYPES.LAUNCH_TAB, tabId: tab.id }
+		if (await browser.runtime.sendMessage(message)) {
+			window.close()
+		} else {
+			showStatus(status, "This page isn’t a repository on a supported host.", "error")
+		}
+	})
+
+	settingsBtn.addEventListener("click", () => {
+		browser.runtime.openOptionsPage()
+		window.close()
+	})
+
+	/* -----------------------------------------------------------------------------
+	 *  Render the history and re-render on search or when a launch is pinned.
+	 * --------------------------------------------------------------------------- */
+	let records = await loadLaunchHistory()
+
+	const refresh = async () => {
+		records = await loadLaunchHistory()
+		renderHistory(list, records, search.value, status, refresh)
+	}
+
+	search.addEventListener("input", () => renderHistory(list, records, search.value, status, refresh))
+	renderHistory(list, records, "", status, refresh)
+	search.focus()
+
+	/* -----------------------------------------------------------------------------
+	 *  Diagnostics are only fetched when the panel is opened.
+	 * --------------------------------------------------------------------------- */
+	diagnostics.addEventListener("toggle", async () => {
+		if (!diagnostics.open) return
+
+		const [tab] = await browser.tabs.query({ active: true, currentWindow: true })
+		renderDiagnostics(diagnosticsList, tab?.id === undefined ? null : await loadDiagnostics(tab.id))
+	})
+
+	/* -----------------------------------------------------------------------------
+	 *  The picked element opens the settings with a new contribution for it;
+	 *  the popup closes so the page can be clicked.
+	 * --------------------------------------------------------------------------- */
+	pickBtn.addEventListener("click", async () => {
+		const [tab] = await browser.tabs.query({ active: true, currentWindow: true })
+		if (tab?.id !== undefined && (await startElementPicker(tab.id))) {
+			window.close()
+		} else {
+			showStatus(status, "This page isn’t on a supported host.", "error")
+		}
+	})
+})
@@ -0,0 +1,271 @@
+/**
+ * Resolves the head and base refs of a pull request through the provider's REST API.
+ *
+ * Pull request URLs name neither the branch under review nor the fork it lives in, and pages render
+ * them in markup that changes between versions. The REST APIs are stable. Bitbucket, Bitbucket
+ * Server and Azure DevOps serve theirs from the same origin as the page, so the user's session
+ * authorizes the request; GitHub's API lives on a separate origin and is queried anonymously,
+ * which covers public repositories.
+ */
+
+import type { SupportedApplication } from "./button-contributions";
+import type { PullRequestRefs } from "./page-context";
+import type { PullRequestResolver } from "./repo-url";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Builds the API URL of a pull request page and reads the refs from the API response. */
+interface PullRequestApi {
+	/** Returns the API URL for a pull request page URL, or null if the URL isn't one. */
+	apiUrl: (url: URL) => string | null;
+	/** Extracts the refs from the parsed API response, or null if the response lacks the head branch. */
+	refs: (response: unknown, url: URL) => PullRequestRefs | null;
+	/** Whether the request sends the user's cookies (only for APIs on the page's origin). */
+	credentials: RequestCredentials;
+}
+
+/** The refs as read off an API response, before checking they are strings. */
+type UncheckedRefs = Partial<Record<keyof PullRequestRefs, unknown>>;
+
+/** The parts of a GitHub pull request the resolver reads. */
+interface GitHubPullRequest {
+	head?: { ref?: unknown; repo?: { html_url?: unknown } | null };
+	base?: { ref?: unknown; repo?: { html_url?: unknown } | null };
+}
+
+/** The parts of a Bitbucket Cloud pull request the resolver reads. */
+interface BitbucketPullRequest {
+	source?: BitbucketEndpoint;
+	destination?: BitbucketEndpoint;
+}
+
+/** A side of a Bitbucket Cloud pull request. */
+interface BitbucketEndpoint {
+	branch?: { name?: unknown };
+	repository?: { full_name?: unknown } | null;
+}
+
+/** The parts of a Bitbucket Server pull request the resolver reads. */
+interface BitbucketServerPullRequest {
+	fromRef?: BitbucketServerRef;
+	toRef?: BitbucketServerRef;
+}
+
+/** A side of a Bitbucket Server pull request. */
+interface BitbucketServerRef {
+	displayId?: unknown;
+	repository?: BitbucketServerRepository | null;
+}
+
+/** The parts of a Bitbucket Server repository the resolver reads. */
+interface BitbucketServerRepository {
+	slug?: unknown;
+	project?: { key?: unknown };
+}
+
+/** The parts of an Azure DevOps pull request the resolver reads. */
+interface AzureDevOpsPullRequest {
+	sourceRefName?: unknown;
+	targetRefName?: unknown;
+	repository?: { webUrl?: unknown };
+	forkSource?: { repository?: { webUrl?: unknown } } | null;
+}
+
+// ============================================================================
+// Provider APIs
+// ============================================================================
+
+/**
+ * Narrows a parsed JSON response to an object of the given shape. The shapes above declare every
+ * field optional and every value `unknown`, so reading a missing part yields undefined and values
+ * are checked before use (see `toRefs()`).
+ *
+ * @param response - The parsed response.
+ * @returns The response, or an empty object if it isn't an object.
+ */
+function asObject<T extends object>(response: unknown): T {
+	return (typeof response === "object" && response !== null ? response : {}) as T;
+}
+
+/**
+ * Narrows a value read off an API response to a non-empty string.
+ *
+ * @param value - The value.
+ * @returns The string, or undefined if the value isn't one or is empty.
+ */
+function asText(value: unknown): string | undefined {
+	return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Strips the `refs/heads/` prefix Bitbucket Server and Azure DevOps use for branch refs.
+ *
+ * @param ref - The full ref name.
+ * @returns The branch name, or undefined if there is no ref.
+ */
+function branchFromRef(ref: unknown): string | undefined {
+	return asText(ref)?.replace(/^refs\/heads\//, "");
+}
+
+/**
+ * Builds the refs from the values read off an API response; the head branch is required.
+ *
+ * @param refs - The head and base values, any of which may be missing or not a string.
+ * @returns The refs, or null without a head branch.
+ */
+function toRefs(refs: UncheckedRefs): PullRequestRefs | null {
+	const headBranch = asText(refs.headBranch);
+	if (!headBranch) return null;
+
+	const result: PullRequestRefs = { headBranch };
+	const headRepoUrl = asText(refs.headRepoUrl);
+	const baseBranch = asText(refs.baseBranch);
+	const baseRepoUrl = asText(refs.baseRepoUrl);
+	if (headRepoUrl) result.headRepoUrl = headRepoUrl;
+	if (baseBranch) result.baseBranch = baseBranch;
+	if (baseRepoUrl) result.baseRepoUrl = baseRepoUrl;
+	return result;
+}
+
+/**
+ * Builds a Bitbucket Server repository clone URL, matching the normalized repository URL.
+ *
+ * @param origin - The page origin including any context path.
+ * @param repository - The repository object from a pull request ref.
+ * @returns The clone URL, or undefined if the repository is missing.
+ */
+function bitbucketServerRepoUrl(
+	origin: string,
+	repository: BitbucketServerRepository | null | undefined
+): string | undefined {
+	const key = asText(repository?.project?.key);
+	const slug = asText(repository?.slug);
+	return key && slug ? `${origin}/scm/${key.toLowerCase()}/${slug}.git` : undefined;
+}
+
+/** REST endpoints describing a pull request, for each provider that has one. */
+const PULL_REQUEST_APIS: Partial<Record<SupportedApplication, PullRequestApi>> = {
+	// api.github.com for github.com, /api/v3 on GitHub Enterprise Server
+	github: {
+		apiUrl: (url) => {
+			const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+			if (!match) return null;
+
+			const api = url.hostname === "github.com" ? "https://api.github.com" : `${url.origin}/api/v3`;
+			return `${api}/repos/${match[1]}/${match[2]}/pulls/${match[3]}`;
+		},
+		refs: (response) => {
+			const pullRequest = asObject<GitHubPullRequest>(response);
+			return toRefs({
+				headBranch: pullRequest.head?.ref,
+				headRepoUrl: pullRequest.head?.repo?.html_url,
+				baseBranch: pullRequest.base?.ref,
+				baseRepoUrl: pullRequest.base?.repo?.html_url,
+			});
+		},
+		credentials: "omit",
+	},
+	// bitbucket.org serves its public API under /!api on the site origin, using the session cookie
+	bitbucket: {
+		apiUrl: (url) => {
+			const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/pull-requests\/(\d+)/);
+			return match
+				? `${url.origin}/!api/2.0/repositories/${match[1]}/${match[2]}/pullrequests/${match[3]}`
+				: null;
+		},
+		refs: (response, url) => {
+			const pullRequest = asObject<BitbucketPullRequest>(response);
+			const repoUrl = (fullName: unknown) => {
+				const name = asText(fullName);
+				return name ? `${url.origin}/${name}` : undefined;
+			};
+			return toRefs({
+				headBranch: pullRequest.source?.branch?.name,
+				headRepoUrl: repoUrl(pullRequest.source?.repository?.full_name),
+				baseBranch: pullRequest.destination?.branch?.name,
+				baseRepoUrl: repoUrl(pullRequest.destination?.repository?.full_name),
+			});
+		},
+		credentials: "include",
+	},
+	"bitbucket-server": {
+		apiUrl: (url) => {
+			const match = url.pathname.match(
+				/^(.*?)\/(projects|users)\/([^/]+)\/repos\/([^/]+)\/pull-requests\/(\d+)/
+			);
+			if (!match) return null;
+
+			const [, contextPath, scope, key, repo, id] = match;
+			const project = scope === "users" ? `~${key}` : key;
+			return `${url.origin}${contextPath}/rest/api/1.0/projects/${project}/repos/${repo}/pull-requests/${id}`;
+		},
+		refs: (response, url) => {
+			const pullRequest = asObject<BitbucketServerPullRequest>(response);
+			const origin = url.origin + (url.pathname.match(/^(.*?)\/(?:projects|users)\//)?.[1] ?? "");
+			return toRefs({
+				headBranch: pullRequest.fromRef?.displayId,
+				headRepoUrl: bitbucketServerRepoUrl(origin, pullRequest.fromRef?.repository),
+				baseBranch: pullRequest.toRef?.displayId,
+				baseRepoUrl: bitbucketServerRepoUrl(origin, pullRequest.toRef?.repository),
+			});
+		},
+		credentials: "include",
+	},
+	"azure-devops": {
+		apiUrl: (url) => {
+			const match = url.pathname.match(/^(.*?)\/_git\/([^/]+)\/pullrequest\/(\d+)/);
+			return match
+				? `${url.origin}${match[1]}/_apis/git/repositories/${match[2]}/pullrequests/${match[3]}?api-version=7.0`
+				: null;
+		},
+		refs: (response) => {
+			const pullRequest = asObject<AzureDevOpsPullRequest>(response);
+			return toRefs({
+				headBranch: branchFromRef(pullRequest.sourceRefName),
+				headRepoUrl: pullRequest.forkSource?.repository?.webUrl ?? pullRequest.repository?.webUrl,
+				baseBranch: branchFromRef(pullRequest.targetRefName),
+				baseRepoUrl: pullRequest.repository?.webUrl,
+			});
+		},
+		credentials: "include",
+	},
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Creates a resolver that looks up the head and base refs of the pull request at a URL.
+ *
+ * @param pageUrl - The pull request page (or link) URL.
+ * @param application - The Git provider the URL belongs to.
+ * @returns The resolver, or undefined if the provider has no pull request API here.
+ */
+export function createApiPullRequestResolver(
+	pageUrl: string,
+	application: SupportedApplication
+): PullRequestResolver | undefined {
+	const api = PULL_REQUEST_APIS[application];
+	if (!api) return undefined;
+
+	return async () => {
+		try {
+			const url = new URL(pageUrl);
+			const apiUrl = api.apiUrl(url);
+			if (!apiUrl) return null;
+
+			const response = await fetch(apiUrl, {
+				credentials: api.credentials,
+				headers: { Accept: "application/json" },
+			});
+			if (!response.ok) return null;
+
+			return api.refs(await response.json(), url);
+		} catch {
+			return null;
+		}
+	};
+}
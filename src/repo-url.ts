@@ -0,0 +1,423 @@
+/**
+ * Provider-specific normalization of Git provider page URLs into repository URLs.
+ *
+ * Everything here works on URLs alone, so it can run in the content script as well as in the
+ * background worker (e.g. for links in a context menu). Information the URL doesn't carry, such as
+ * a pull request's head branch and repository, is supplied by the caller through a resolver.
+ *
+ * GitHub, GitLab and Gitea URLs keep the branch as a tree path in the repository URL (as their web
+ * UIs do). Bitbucket, Bitbucket Server and Azure DevOps carry the branch in query parameters that do
+ * not belong in a cloneable URL, so for them the branch is extracted separately from the page URL.
+ *
+ * A path like `/tree/feature/login-form/src` doesn't say where the ref ends and the file path begins.
+ * The page knows (its ref selector shows the full name), so a page resolver supplies the ref and it
+ * is reconciled with the path; without one, the first path segment is taken as the ref.
+ */
+
+import type { SupportedApplication } from "./button-contributions";
+import type { PageRef, PullRequestRefs, RefType } from "./page-context";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Resolves the head and base refs of the pull/merge request shown on a page,
+ * from the page DOM or the provider's API.
+ */
+export type PullRequestResolver = () => Promise<PullRequestRefs | null>;
+
+/**
+ * Resolves the ref (branch, tag or commit) the current page shows, as the page's ref selector
+ * or embedded data names it. Only available where the page DOM can be inspected.
+ */
+export type PageRefResolver = () => Promise<PageRef | null>;
+
+/** Resolvers for what the URL alone doesn't tell; each is optional. */
+export interface PageResolvers {
+	/** Resolves the PR/MR refs. */
+	pullRequest?: PullRequestResolver;
+	/** Resolves the ref shown on the page. */
+	ref?: PageRefResolver;
+}
+
+/** A normalized repository URL together with the ref the page refers to. */
+export interface RepositoryLocation {
+	/** The normalized repository URL (may include a branch tree path). */
+	repoUrl: string;
+	/** The branch, tag or commit, or null if the page doesn't refer to one. */
+	ref: PageRef | null;
+	/** The refs of the pull/merge request, on pull/merge request pages the resolver could read. */
+	pullRequest: PullRequestRefs | null;
+}
+
+// ============================================================================
+// Branch Name Extraction
+// ============================================================================
+
+/** A full 40-character commit SHA; shorter hex strings may well be branch names. */
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+/** GitLab's `ref_type` query parameter, which says whether a tree URL shows a branch or a tag. */
+const GITLAB_REF_TYPES: Record<string, RefType> = { heads: "branch", tags: "tag" };
+
+/**
+ * Path sections followed by `<ref>[/<path>]`, most specific first; Gitea's sections also say
+ * what kind of ref follows.
+ */
+const REF_PATH_PATTERNS: { pattern: RegExp; type?: RefType }[] = [
+	// GitLab: /-/tree/<ref>, /-/blob/<ref>/<path>
+	{ pattern: /\/-\/(?:tree|blob)\/(.+)$/ },
+	// Gitea: /src/branch/<ref>, /src/tag/<ref>, /src/commit/<sha>
+	{ pattern: /\/src\/branch\/(.+)$/, type: "branch" },
+	{ pattern: /\/src\/tag\/(.+)$/, type: "tag" },
+	{ pattern: /\/src\/commit\/(.+)$/, type: "commit" },
+	// GitHub: /tree/<ref>, /blob/<ref>/<path>
+	{ pattern: /^\/[^/]+\/[^/]+\/(?:tree|blob)\/(.+)$/ },
+];
+
+/**
+ * Extracts the ref from the current URL path, reconciled with the ref the page shows.
+ * Works for GitHub, GitLab and Gitea tree and file URLs.
+ *
+ * The page ref wins when the path starts with it, which is how multi-segment branch names
+ * ("feature/login-form") are told apart from a directory below a branch. Otherwise the first path
+ * segment is taken; a full commit SHA there is a commit, anything else a branch.
+ *
+ * @param url - The current URL to extract the ref from.
+ * @param pageRef - The ref the page shows (optional).
+ * @returns The ref if found, otherwise null.
+ */
+export function extractRefFromUrl(url: string, pageRef?: PageRef | null): PageRef | null {
+	const parsed = new URL(url);
+	const pathname = parsed.pathname;
+	const queryType = GITLAB_REF_TYPES[parsed.searchParams.get("ref_type") ?? ""];
+
+	for (const { pattern, type: pathType } of REF_PATH_PATTERNS) {
+		const type = pathType ?? queryType;
+		const match = pathname.match(pattern);
+		if (!match) continue;
+
+		const refPath = match[1].split("/").map(decodeURIComponent).join("/").replace(/\/+$/, "");
+		if (pageRef && (refPath === pageRef.name || refPath.startsWith(`${pageRef.name}/`))) {
+			return { name: pageRef.name, type: type ?? pageRef.type };
+		}
+
+		const name = refPath.split("/")[0];
+		if (!name) return null;
+		return { name, type: type ?? (COMMIT_SHA_PATTERN.test(name) ? "commit" : "branch") };
+	}
+
+	return null;
+}
+
+/**
+ * Builds the URL path of a ref, keeping the slashes of multi-segment names.
+ *
+ * @param name - The ref name.
+ * @returns The encoded path.
+ */
+function encodeRefPath(name: string): string {
+	return name.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Extracts the branch name from a Bitbucket Cloud URL:
+ * `?at=<branch>`, `/branch/<branch>`, `/commits/branch/<branch>` or `/src/<branch>/<path>`.
+ *
+ * @param url - The Bitbucket page URL.
+ * @returns The branch name if found, otherwise null.
+ */
+function extractBitbucketBranch(url: string): string | null {
+	const parsed = new URL(url);
+	const at = parsed.searchParams.get("at");
+	if (at) return at;
+
+	const branchMatch = parsed.pathname.match(/^\/[^/]+\/[^/]+\/(?:commits\/)?branch\/(.+?)\/?$/);
+	if (branchMatch) return decodeURIComponent(branchMatch[1]);
+
+	// /src/<ref>: commit hashes are not branches
+	const srcMatch = parsed.pathname.match(/^\/[^/]+\/[^/]+\/src\/([^/]+)/);
+	if (srcMatch && !/^[0-9a-f]{7,40}$/.test(srcMatch[1])) {
+		return decodeURIComponent(srcMatch[1]);
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the branch name from a Bitbucket Server URL: `?at=refs/heads/<branch>` on browse pages,
+ * `?until=refs/heads/<branch>` on commit lists, or a short `?at=<branch>`.
+ *
+ * @param url - The Bitbucket Server page URL.
+ * @returns The branch name if found, otherwise null (also for tags and commits).
+ */
+function extractBitbucketServerBranch(url: string): string | null {
+	const params = new URL(url).searchParams;
+	const ref = params.get("at") ?? params.get("until");
+	if (!ref) return null;
+
+	if (ref.startsWith("refs/heads/")) return ref.slice("refs/heads/".length);
+	if (ref.startsWith("refs/") || /^[0-9a-f]{40}$/.test(ref)) return null;
+	return ref;
+}
+
+/**
+ * Extracts the branch name from an Azure DevOps URL: `?version=GB<branch>`
+ * (`GT` tags and `GC` commits are not branches).
+ *
+ * @param url - The Azure DevOps page URL.
+ * @returns The branch name if found, otherwise null.
+ */
+function extractAzureDevOpsBranch(url: string): string | null {
+	const version = new URL(url).searchParams.get("version");
+	return version?.startsWith("GB") ? version.slice(2) : null;
+}
+
+/**
+ * Checks whether a URL is a pull/merge request page: GitHub `/pull/<n>`, GitLab
+ * `/-/merge_requests/<n>`, Gitea `/pulls/<n>`, Bitbucket `/pull-requests/<n>` or
+ * Azure DevOps `/pullrequest/<n>`.
+ *
+ * @param url - The page URL.
+ * @returns True on pull/merge request pages.
+ */
+function isPullRequestUrl(url: string): boolean {
+	return /\/(?:pulls?|-\/merge_requests|pull-requests|pullrequest)\/\d+/.test(new URL(url).pathname);
+}
+
+// ============================================================================
+// URL Normalization
+// ============================================================================
+
+/**
+ * Normalizes a GitLab URL to point to the repository or branch tree.
+ * On MR pages, rewrites to the source branch tree URL when it is known; other project pages
+ * (pipelines, issues, wiki, ...) fall back to the repository root.
+ *
+ * @param url - The current GitLab URL.
+ * @param pullRequest - The refs of the MR shown on the page (optional).
+ * @param ref - The ref of tree pages, reconciled with the page (optional).
+ * @returns The normalized repository URL.
+ */
+function normalizeGitLabUrl(url: string, pullRequest?: PullRequestRefs | null, ref?: PageRef | null): string {
+	// Handle Merge Request URLs
+	const mrMatch = url.match(
+		/^(https?:\/\/[^/]+\/.+?)\/-\/merge_requests\/\d+/
+	);
+
+	if (mrMatch) {
+		const baseRepo = mrMatch[1];
+		const branch = pullRequest?.headBranch;
+		return branch ? `${baseRepo}/-/tree/${encodeRefPath(branch)}` : baseRepo;
+	}
+
+	// Handle blob URLs (single file views)
+	if (url.includes("/-/blob/")) {
+		return url.split("/-/blob/")[0];
+	}
+
+	// Keep tree URLs up to the ref, reduce every other project page to the repository root
+	if (url.includes("/-/tree/")) {
+		return ref ? `${url.split("/-/tree/")[0]}/-/tree/${encodeRefPath(ref.name)}` : url;
+	}
+	if (url.includes("/-/")) {
+		return url.split("/-/")[0];
+	}
+
+	return url;
+}
+
+/**
+ * Normalizes a GitHub URL to point to the repository or branch tree.
+ * Removes extra segments such as pull requests, issues, or actions. On PR pages, rewrites to
+ * the head branch tree URL when it is known, in the fork the PR was opened from if any.
+ *
+ * @param url - The current GitHub URL.
+ * @param pullRequest - The refs of the PR shown on the page (optional).
+ * @param ref - The ref of tree pages, reconciled with the page (optional).
+ * @returns The normalized repository URL.
+ */
+function normalizeGitHubUrl(url: string, pullRequest?: PullRequestRefs | null, ref?: PageRef | null): string {
+	const baseMatch = url.match(/^(https?:\/\/[^/]+\/[^/?#]+\/[^/?#]+)/);
+	if (!baseMatch) return url;
+
+	let normalizedUrl = baseMatch[1];
+
+	if (pullRequest && /^\/[^/]+\/[^/]+\/pull\/\d+/.test(new URL(url).pathname)) {
+		return `${pullRequest.headRepoUrl ?? normalizedUrl}/tree/${encodeRefPath(pullRequest.headBranch)}`;
+	}
+
+	// Preserve branch information if present in the path
+	if (ref && /^\/[^/]+\/[^/]+\/tree\//.test(new URL(url).pathname)) {
+		normalizedUrl = `${normalizedUrl}/tree/${encodeRefPath(ref.name)}`;
+	}
+
+	return normalizedUrl;
+}
+
+/**
+ * Normalizes a Gitea / Forgejo URL to point to the repository or branch tree.
+ * Removes extra segments such as pull requests, issues, commits, or file paths.
+ *
+ * @param url - The current Gitea URL.
+ * @param ref - The ref of source pages, reconciled with the page (optional).
+ * @returns The normalized repository URL.
+ */
+function normalizeGiteaUrl(url: string, ref?: PageRef | null): string {
+	const baseMatch = url.match(/^(https?:\/\/[^/]+\/[^/?#]+\/[^/?#]+)/);
+	if (!baseMatch) return url;
+
+	// Preserve branch information if present in the path (/src/branch/<name>[/<path>])
+	const onBranch = ref?.type === "branch" && new URL(url).pathname.includes("/src/branch/");
+	return onBranch ? `${baseMatch[1]}/src/branch/${encodeRefPath(ref.name)}` : baseMatch[1];
+}
+
+/**
+ * Normalizes a Bitbucket Cloud URL to the repository URL.
+ * Removes extra segments such as pull requests, source paths, commits or branches.
+ *
+ * @param url - The current Bitbucket URL.
+ * @returns The repository URL, without branch.
+ */
+function normalizeBitbucketUrl(url: string): string {
+	const baseMatch = url.match(/^(https?:\/\/[^/]+\/[^/?#]+\/[^/?#]+)/);
+	return baseMatch ? baseMatch[1].replace(/\.git$/, "") : url;
+}
+
+/**
+ * Normalizes a Bitbucket Server URL to the repository's HTTPS clone URL.
+ * Browse URLs (`/projects/<KEY>/repos/<repo>/browse?at=...`) are not cloneable; `/scm/<key>/<repo>.git` is.
+ * Personal repositories (`/users/<user>/repos/<repo>`) map to `/scm/~<user>/<repo>.git`.
+ *
+ * @param url - The current Bitbucket Server URL.
+ * @returns The repository clone URL, without branch.
+ */
+function normalizeBitbucketServerUrl(url: string): string {
+	const repoMatch = url.match(/^(https?:\/\/[^?#]*?)\/(projects|users)\/([^/?#]+)\/repos\/([^/?#]+)/);
+	if (!repoMatch) return url;
+
+	const [, base, scope, key, repo] = repoMatch;
+	const owner = scope === "users" ? `~${key}` : key;
+	return `${base}/scm/${owner.toLowerCase()}/${repo}.git`;
+}
+
+/**
+ * Normalizes an Azure DevOps URL to the repository URL (`.../<project>/_git/<repo>`), which is cloneable.
+ * Removes pull request and commit segments as well as the path and version query parameters.
+ *
+ * @param url - The current Azure DevOps URL.
+ * @returns The repository URL, without branch.
+ */
+function normalizeAzureDevOpsUrl(url: string): string {
+	const repoMatch = url.match(/^(https?:\/\/[^?#]+?\/_git\/[^/?#]+)/);
+	return repoMatch ? repoMatch[1] : url;
+}
+
+/**
+ * Normalizes a repository URL to always point to a cloneable path.
+ * Handles provider-specific URL patterns (GitLab, GitHub, Gitea, Bitbucket, Bitbucket Server and
+ * Azure DevOps) on public and self-managed hosts.
+ *
+ * @param currentUrl - The current browser location (or a link target).
+ * @param application - The Git provider the URL belongs to.
+ * @param pullRequest - The refs of the PR/MR shown on the page (optional).
+ * @param ref - The ref shown on the page, as returned by `extractRefFromUrl` (optional).
+ * @returns The normalized repository URL.
+ */
+export function normalizeRepoUrl(
+	currentUrl: string,
+	application: SupportedApplication,
+	pullRequest?: PullRequestRefs | null,
+	ref?: PageRef | null
+): string {
+	try {
+		if (application === "gitlab") {
+			return normalizeGitLabUrl(currentUrl, pullRequest, ref);
+		}
+
+		if (application === "github") {
+			return normalizeGitHubUrl(currentUrl, pullRequest, ref);
+		}
+
+		if (application === "gitea") {
+			return normalizeGiteaUrl(currentUrl, ref);
+		}
+
+		if (application === "bitbucket") {
+			return normalizeBitbucketUrl(currentUrl);
+		}
+
+		if (application === "bitbucket-server") {
+			return normalizeBitbucketServerUrl(currentUrl);
+		}
+
+		if (application === "azure-devops") {
+			return normalizeAzureDevOpsUrl(currentUrl);
+		}
+	} catch {
+		// Silent fallback to original URL
+	}
+
+	return currentUrl;
+}
+
+// ============================================================================
+// Repository Location
+// ============================================================================
+
+/** Extractors for the providers whose branch is not part of the normalized repository URL. */
+const QUERY_BRANCH_EXTRACTORS: Partial<Record<SupportedApplication, (url: string) => string | null>> = {
+	bitbucket: extractBitbucketBranch,
+	"bitbucket-server": extractBitbucketServerBranch,
+	"azure-devops": extractAzureDevOpsBranch,
+};
+
+/**
+ * Resolves the repository URL and ref for a Git provider page URL.
+ * On pull/merge request pages the ref is the head branch, as far as the resolver can tell.
+ *
+ * @param currentUrl - The current browser location (or a link target).
+ * @param application - The Git provider the URL belongs to.
+ * @param resolvers - Resolve what the URL doesn't tell, from the page or an API (optional).
+ * @returns The normalized repository URL, the ref and the PR/MR refs.
+ */
+export async function resolveRepositoryLocation(
+	currentUrl: string,
+	application: SupportedApplication,
+	resolvers: PageResolvers = {}
+): Promise<RepositoryLocation> {
+	let pullRequest: PullRequestRefs | null = null;
+	let pageRef: PageRef | null = null;
+	try {
+		if (resolvers.pullRequest && isPullRequestUrl(currentUrl)) {
+			pullRequest = await resolvers.pullRequest();
+		}
+		pageRef = resolvers.ref ? await resolvers.ref() : null;
+	} catch {
+		// Not a valid URL, or a resolver failed: the URL has to do
+	}
+
+	const headRef: PageRef | null = pullRequest ? { name: pullRequest.headBranch, type: "branch" } : null;
+
+	const extractBranch = QUERY_BRANCH_EXTRACTORS[application];
+	if (!extractBranch) {
+		let ref = headRef;
+		try {
+			ref = ref ?? extractRefFromUrl(currentUrl, pageRef);
+		} catch {
+			// Not a valid URL: no ref
+		}
+		return { repoUrl: normalizeRepoUrl(currentUrl, application, pullRequest, ref), ref, pullRequest };
+	}
+
+	let ref = headRef;
+	try {
+		const branchName = extractBranch(currentUrl);
+		ref = ref ?? (branchName ? { name: branchName, type: "branch" } : null);
+	} catch {
+		// Not a valid URL: no branch
+	}
+
+	return { repoUrl: normalizeRepoUrl(currentUrl, application, pullRequest), ref, pullRequest };
+}
@@ -0,0 +1,113 @@
+/**
+ * A dialog shown inside a web page, asking whether to reuse an existing workspace.
+ *
+ * Like the toast (see toast.ts), the background worker injects `askWorkspaceReuse` with
+ * `scripting.executeScript`, which serializes the function: it must stay self-contained (no imports,
+ * no outer variables) and style itself inline.
+ */
+
+/** What to do about an existing workspace: switch to its tab, resume it in a new tab, or start a new one. */
+export type ReuseChoice = "switch" | "resume" | "new";
+
+/** The options the dialog offers. */
+export interface ReusePromptOptions {
+	/** The label of the profile being launched. */
+	profileLabel: string;
+	/** Whether a tab with the workspace is open. */
+	canSwitch: boolean;
+	/** Whether a previously opened workspace URL is known. */
+	canResume: boolean;
+}
+
+/**
+ * Shows a dialog in the center of the page and waits for the user's choice.
+ *
+ * @param options - The profile and the choices available.
+ * @returns The choice, or null if the dialog was dismissed (Escape, "Cancel" or a click outside).
+ */
+export function askWorkspaceReuse(options: ReusePromptOptions): Promise<ReuseChoice | null> {
+	const DIALOG_ID = "eons-reuse-prompt";
+
+	document.getElementById(DIALOG_ID)?.remove();
+
+	return new Promise((resolve) => {
+		const overlay = document.createElement("div");
+		overlay.id = DIALOG_ID;
+		Object.assign(overlay.style, {
+			position: "fixed",
+			inset: "0",
+			zIndex: "2147483647",
+			display: "flex",
+			alignItems: "center",
+			justifyContent: "center",
+			background: "rgba(0, 0, 0, 0.4)",
+		});
+
+		const dialog = document.createElement("div");
+		dialog.setAttribute("role", "dialog");
+		dialog.setAttribute("aria-modal", "true");
+		dialog.setAttribute("aria-label", "Open workspace");
+		Object.assign(dialog.style, {
+			maxWidth: "400px",
+			padding: "20px",
+			borderRadius: "8px",
+			background: "#2b303f",
+			color: "#f3f4f6",
+			font: "14px/1.4 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+			boxShadow: "0 8px 24px rgba(0, 0, 0, 0.35)",
+		});
+		overlay.appendChild(dialog);
+
+		const text = document.createElement("p");
+		text.style.margin = "0 0 16px";
+		text.textContent = `This branch already has a workspace in ${options.profileLabel}.`;
+		dialog.appendChild(text);
+
+		const close = (choice: ReuseChoice | null) => {
+			document.removeEventListener("keydown", onKeyDown, true);
+			overlay.remove();
+			resolve(choice);
+		};
+		const onKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "Escape") close(null);
+		};
+
+		const actions = document.createElement("div");
+		Object.assign(actions.style, { display: "flex", flexWrap: "wrap", gap: "8px" });
+		dialog.appendChild(actions);
+
+		const choices: [ReuseChoice | null, string, boolean][] = [
+			["switch", "Switch to its tab", options.canSwitch],
+			["resume", "Resume it", !options.canSwitch && options.canResume],
+			["new", "Open a new one", true],
+			[null, "Cancel", true],
+		];
+		for (const [choice, label, available] of choices) {
+			if (!available) continue;
+
+			const button = document.createElement("button");
+			button.type = "button";
+			button.textContent = label;
+			button.dataset.choice = choice ?? "cancel";
+			Object.assign(button.style, {
+				padding: "6px 12px",
+				border: "1px solid #6b7280",
+				borderRadius: "6px",
+				background: choice === null ? "transparent" : "#3b4252",
+				color: "inherit",
+				font: "inherit",
+				cursor: "pointer",
+			});
+			button.addEventListener("click", () => close(choice));
+			actions.appendChild(button);
+		}
+
+		overlay.addEventListener("click", (event) => {
+			if (event.target === overlay) close(null);
+		});
+		document.addEventListener("keydown", onKeyDown, true);
+
+		document.body.appendChild(overlay);
+		(actions.firstElementChild as HTMLButtonElement | null)?.focus();
+	});
+}
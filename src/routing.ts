@@ -0,0 +1,80 @@
+/**
+ * First-match-wins routing of repositories to workspace profiles or templates.
+ *
+ * Rules are evaluated in the order configured in the Options page. The first rule whose criteria all
+ * match the current page context decides which profile (or override template) the "Open" button uses.
+ */
+
+import type { PageContext } from "./page-context";
+import type { RoutingRule } from "./settings";
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Converts a glob (`*` matches any run of characters, `?` a single character) into a regular expression.
+ * Matching is case-insensitive and anchored to the whole value.
+ *
+ * @param glob - The glob pattern.
+ * @returns The equivalent regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Checks whether every criterion of a rule matches the page context.
+ * Invalid regular expressions never match.
+ *
+ * @param rule - The routing rule.
+ * @param context - The page context.
+ * @returns True if the rule applies to the page.
+ */
+export function matchesRule(rule: RoutingRule, context: PageContext): boolean {
+	if (rule.host && rule.host.toLowerCase() !== context.host.toLowerCase()) {
+		return false;
+	}
+
+	if (rule.owner && !globToRegExp(rule.owner).test(context.owner)) {
+		return false;
+	}
+
+	if (rule.repo && !globToRegExp(rule.repo).test(context.repo)) {
+		return false;
+	}
+
+	if (rule.pattern) {
+		try {
+			if (!new RegExp(rule.pattern).test(context.repoUrl)) {
+				return false;
+			}
+		} catch {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Finds the first rule that matches the page context.
+ *
+ * @param rules - The rules in evaluation order.
+ * @param context - The page context.
+ * @returns The matching rule, or undefined if no rule applies.
+ */
+export function resolveRoutingRule(
+	rules: RoutingRule[],
+	context: PageContext
+): RoutingRule | undefined {
+	return rules.find((rule) => matchesRule(rule, context));
+}
@@ -0,0 +1,876 @@
+/**
+ * Shared settings model for the content script and the Options page.
+ *
+ * All user configuration lives in the browser's sync storage. This module owns the storage keys,
+ * the shape of each stored value, and the defaults used when nothing has been configured yet,
+ * so that every script reads and writes the same data the same way.
+ *
+ * An administrator can additionally set values through an enterprise policy (`storage.managed`,
+ * using the same keys). A policy value is locked and overrides the user's value, unless the policy
+ * lists its key in `presetSettings`, in which case it only applies until the user saves their own.
+ */
+
+import browser from "webextension-polyfill";
+import type { SupportedApplication } from "./button-contributions";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default workspace URL template used when no custom template is configured. */
+export const DEFAULT_URL_TEMPLATE =
+	"https://workspace.infrastructure.tech/#/cast/dev?kasm_url={{ repoUrl }}";
+
+/** Keys under which settings are stored in the browser's sync storage. */
+export const STORAGE_KEYS = {
+	/** Legacy single URL template, used before profiles existed. */
+	URL_TEMPLATE: "urlTemplate",
+	/** The list of named workspace profiles. */
+	PROFILES: "profiles",
+	/** The id of the profile opened by the primary button action. */
+	DEFAULT_PROFILE_ID: "defaultProfileId",
+	/** Self-managed Git hosts and their provider types. */
+	CUSTOM_HOSTS: "customHosts",
+	/** Ordered rules routing repositories to profiles or templates. */
+	ROUTING_RULES: "routingRules",
+	/** Retention limits of the launch history. */
+	HISTORY_SETTINGS: "historySettings",
+	/** Button contributions added or overridden by the user. */
+	CUSTOM_CONTRIBUTIONS: "customContributions",
+	/** Label, icon and emphasis of the injected buttons. */
+	BUTTON_APPEARANCE: "buttonAppearance",
+	/** Safe rendering mode of the URL templates and the workspace hosts it allows. */
+	URL_SAFETY: "urlSafety",
+} as const;
+
+/** Local-storage key of the API tokens of the workspace platforms, by profile id. */
+export const PLATFORM_TOKENS_KEY = "platformTokens";
+
+/** Local-storage key of the parameter values last launched with, by repository and profile id. */
+export const PARAMETER_VALUES_KEY = "parameterValues";
+
+/** How many repositories the last-used parameter values are remembered for. */
+const MAX_PARAMETER_REPOSITORIES = 100;
+
+/** Local-storage key of the applications pages showed on hosts that aren't configured, by host. */
+export const DETECTED_HOSTS_KEY = "detectedHosts";
+
+/** Local-storage key of the element last picked on a page, until the Options page takes it. */
+export const PICKED_ELEMENT_KEY = "pickedElement";
+
+/** Managed-storage key listing the policy values that are presets rather than locked. */
+export const MANAGED_PRESETS_KEY = "presetSettings";
+
+/** Version of the settings export format; bump it and add a migration when the format changes. */
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+/** Default retention limits of the launch history. */
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+	maxEntries: 200,
+	maxAgeDays: 30,
+};
+
+/** Default appearance of the injected buttons: "Open" with the profile's icon, styled per page. */
+export const DEFAULT_BUTTON_APPEARANCE: ButtonAppearance = {
+	label: "Open",
+	icon: "",
+	emphasis: "auto",
+};
+
+/** URL templates render leniently by default, as they did before the safe mode existed. */
+export const DEFAULT_URL_SAFETY: UrlSafetySettings = {
+	safeMode: false,
+	allowedHosts: [],
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A key under which a setting is stored. */
+export type SettingKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+/** A named workspace target the user can open a repository in. */
+export interface WorkspaceProfile {
+	/** Stable identifier, used to reference the profile from other settings. */
+	id: string;
+	/** Human-readable name shown in the dropdown menu (e.g. "Coder (staging)"). */
+	label: string;
+	/** Liquid template rendered into the workspace URL. */
+	urlTemplate: string;
+	/** Optional URL of an icon shown next to the label. */
+	icon?: string;
+	/** How the workspace is launched; without one, the rendered URL template is opened. */
+	platform?: WorkspacePlatform;
+	/** What opening a repository and branch that already has a workspace does; "new" if unset. */
+	reusePolicy?: ReusePolicy;
+	/** Typed launch parameters, available to the profile's templates as variables (see parameters.ts). */
+	parameters?: ProfileParameter[];
+}
+
+/** The kinds of launch parameter: a choice among options, free text, or a switch. */
+export type ParameterType = "enum" | "string" | "boolean";
+
+/** A launch parameter of a profile, e.g. the IDE or machine size, chosen in the "Open with options…" form. */
+export interface ProfileParameter {
+	/** The template variable holding the value, e.g. "ide". */
+	name: string;
+	/** Label shown in the form; the name if unset. */
+	label?: string;
+	type: ParameterType;
+	/** enum: the values to choose from. */
+	options?: string[];
+	/** The value of plain launches; the first option, "" or false if unset. */
+	default?: string | boolean;
+}
+
+/** Launch parameter values by parameter name. */
+export type ParameterValues = Record<string, string | boolean>;
+
+/**
+ * What a launch does when the repository and branch already have a workspace of the same profile:
+ * always open a new one, switch to its tab or resume it, or ask which of these to do.
+ */
+export type ReusePolicy = "new" | "existing" | "ask";
+
+/** The adapters a workspace can be launched with (see platforms.ts). */
+export type PlatformType = "url" | "coder" | "kasm" | "rest";
+
+/**
+ * The workspace platform a profile launches through. With an API-based platform, the profile's
+ * URL template is still the button's link, opened by modified clicks and when the API call fails.
+ */
+export interface WorkspacePlatform {
+	/** The adapter; "url" opens the rendered URL template. */
+	type: PlatformType;
+	/** Coder and Kasm: the deployment's URL, e.g. "https://coder.example.com". */
+	baseUrl?: string;
+	/** Coder: name of the template new workspaces are created from. Kasm: id of the image to launch. */
+	template?: string;
+	/** Coder: Liquid template of the workspace name, looked up before one is created. */
+	workspaceName?: string;
+	/**
+	 * Coder: Liquid templates of the rich parameters of new workspaces. Kasm: Liquid templates of the
+	 * session's environment variables. Keyed by parameter or variable name.
+	 */
+	parameters?: Record<string, string>;
+	/** Generic REST: Liquid template of the request URL. */
+	requestUrl?: string;
+	/** Generic REST: the HTTP method, "POST" if unset. */
+	method?: string;
+	/** Generic REST: Liquid template of the JSON request body. */
+	requestBody?: string;
+	/** Generic REST: dot-separated path of the workspace URL in the JSON response, "url" if unset. */
+	responseUrlPath?: string;
+}
+
+/** The stored profile list together with the selected default. */
+export interface ProfileSettings {
+	profiles: WorkspaceProfile[];
+	defaultProfileId: string;
+}
+
+/** A self-managed Git host (e.g. a GitHub Enterprise or self-hosted GitLab instance). */
+export interface CustomHost {
+	/** The host name, optionally with a port (e.g. "gitlab.example.com"). */
+	host: string;
+	/** The provider software running on the host. */
+	provider: SupportedApplication;
+}
+
+/**
+ * Routes matching repositories to a specific profile or template.
+ * Every criterion that is set must match; a rule without criteria matches every repository.
+ */
+export interface RoutingRule {
+	/** Stable identifier of the rule. */
+	id: string;
+	/** Human-readable name shown when hovering the button. */
+	label: string;
+	/** Exact host name to match (e.g. "github.com"). */
+	host?: string;
+	/** Glob matched against the repository owner (e.g. "platform-*"). */
+	owner?: string;
+	/** Glob matched against the repository name (e.g. "*-service"). */
+	repo?: string;
+	/** Regular expression matched against the normalized repository URL. */
+	pattern?: string;
+	/** The profile to open; ignored when `urlTemplate` is set. */
+	profileId?: string;
+	/** A template overriding the profiles for matching repositories. */
+	urlTemplate?: string;
+}
+
+/**
+ * A button contribution defined in the Options page. A contribution whose id matches a built-in one
+ * overrides the fields that are set here and keeps the built-in's other fields.
+ */
+export interface CustomContribution {
+	/** Unique id; a built-in contribution's id to override it. */
+	id: string;
+	/** The provider the contribution applies to. */
+	application: SupportedApplication;
+	/** Regular expression matched against the page URL; a new contribution without one matches every page. */
+	match?: string;
+	/** CSS selector, or XPath expression prefixed with "xpath:", of the element the button is placed into. */
+	selector?: string;
+	/** Selector of the sibling the button is inserted before. */
+	insertBefore?: string;
+	/** The element wrapping the button. */
+	containerType?: "div" | "li" | "span";
+	/** Inline styles (e.g. "marginLeft") or, for other names, attributes set on the wrapping element. */
+	containerProps?: Record<string, string>;
+}
+
+/** An element picked on a page, to be filled into a new contribution in the Options page. */
+export interface PickedElement {
+	/** The selector of the picked element. */
+	selector: string;
+	/** The provider of the page it was picked on. */
+	application: SupportedApplication;
+	/** The page it was picked on. */
+	url: string;
+}
+
+/** Retention limits of the launch history. Pinned launches are exempt. */
+export interface HistorySettings {
+	/** Maximum number of launches kept. */
+	maxEntries: number;
+	/** Launches older than this many days are dropped. */
+	maxAgeDays: number;
+}
+
+/**
+ * How prominent the injected buttons are: "auto" keeps each page's choice (e.g. secondary next to
+ * Bitbucket's own primary action), "primary" and "secondary" apply everywhere.
+ */
+export type ButtonEmphasis = "auto" | "primary" | "secondary";
+
+/** Label, icon and emphasis of the injected buttons. The colors follow the host's theme. */
+export interface ButtonAppearance {
+	/** Liquid template of the label, rendered with the page context and `profileName`. */
+	label: string;
+	/** URL of an icon shown on the button; empty to show the default profile's icon. */
+	icon: string;
+	/** Whether the buttons use the host's primary or secondary button style. */
+	emphasis: ButtonEmphasis;
+}
+
+/**
+ * How workspace URL templates are rendered. In safe mode, unknown variables are errors, interpolated
+ * values are percent-encoded for where they appear in the URL, and the result must be an http(s) URL
+ * on an allowed host.
+ */
+export interface UrlSafetySettings {
+	/** Whether the safe rendering mode is on. */
+	safeMode: boolean;
+	/**
+	 * Workspace hosts URLs may point to in safe mode, besides the host a template starts with.
+	 * A leading "*." also allows subdomains (e.g. "*.example.com").
+	 */
+	allowedHosts: string[];
+}
+
+/** Every setting in a single versioned document, as exported from and imported into Options. */
+export interface SettingsExport {
+	/** The `SETTINGS_SCHEMA_VERSION` the document was written with. */
+	schemaVersion: number;
+	profiles: WorkspaceProfile[];
+	defaultProfileId: string;
+	customHosts: CustomHost[];
+	routingRules: RoutingRule[];
+	historySettings: HistorySettings;
+	customContributions: CustomContribution[];
+	buttonAppearance: ButtonAppearance;
+	urlSafety: UrlSafetySettings;
+}
+
+/** The values set by an enterprise policy, and which of them are locked. */
+interface SettingsPolicy {
+	values: Partial<Record<SettingKey, unknown>>;
+	locked: Set<SettingKey>;
+}
+
+// ============================================================================
+// Policy & Storage Resolution
+// ============================================================================
+
+/**
+ * Loads the values set by an enterprise policy.
+ * A policy that only sets the legacy `urlTemplate` is treated as a single "Default" profile.
+ *
+ * @returns The policy values and locked keys; empty if no policy is installed.
+ */
+async function loadPolicy(): Promise<SettingsPolicy> {
+	let managed: Record<string, unknown> = {};
+	try {
+		managed = await browser.storage.managed.get();
+	} catch {
+		// No policy installed (Firefox rejects instead of returning an empty object)
+	}
+
+	const presets = new Set(
+		Array.isArray(managed[MANAGED_PRESETS_KEY]) ? (managed[MANAGED_PRESETS_KEY] as string[]) : []
+	);
+
+	const values: SettingsPolicy["values"] = {};
+	for (const key of Object.values(STORAGE_KEYS)) {
+		if (managed[key] !== undefined) values[key] = managed[key];
+	}
+
+	const urlTemplate = values[STORAGE_KEYS.URL_TEMPLATE];
+	if (typeof urlTemplate === "string" && values[STORAGE_KEYS.PROFILES] === undefined) {
+		values[STORAGE_KEYS.PROFILES] = [{ id: "default", label: "Default", urlTemplate }];
+		values[STORAGE_KEYS.DEFAULT_PROFILE_ID] = "default";
+		if (presets.has(STORAGE_KEYS.URL_TEMPLATE)) {
+			presets.add(STORAGE_KEYS.PROFILES);
+			presets.add(STORAGE_KEYS.DEFAULT_PROFILE_ID);
+		}
+	}
+
+	const locked = new Set(
+		(Object.keys(values) as SettingKey[]).filter((key) => !presets.has(key))
+	);
+	return { values, locked };
+}
+
+/**
+ * Reads settings, resolving each key from a locked policy value, then the user's sync storage,
+ * then a preset policy value.
+ *
+ * @param keys - The keys to read.
+ * @returns The resolved values; keys set nowhere are undefined.
+ */
+async function readSettings(keys: SettingKey[]): Promise<Partial<Record<SettingKey, unknown>>> {
+	const policy = await loadPolicy();
+
+	let stored: Record<string, unknown> = {};
+	try {
+		stored = await browser.storage.sync.get(keys);
+	} catch {
+		// Fall back to the policy values below
+	}
+
+	const values: Partial<Record<SettingKey, unknown>> = {};
+	for (const key of keys) {
+		values[key] = policy.locked.has(key)
+			? policy.values[key]
+			: stored[key] ?? policy.values[key];
+	}
+	return values;
+}
+
+/**
+ * Loads the keys whose values are locked by an enterprise policy.
+ *
+ * @returns The locked keys; empty if no policy is installed.
+ */
+export async function loadLockedSettings(): Promise<Set<SettingKey>> {
+	return (await loadPolicy()).locked;
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/**
+ * Generates a reasonably unique identifier for a new profile or rule.
+ *
+ * @returns A short random identifier.
+ */
+export function createSettingId(): string {
+	return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * Retrieves the legacy single workspace URL template.
+ * Resolves from the enterprise policy, then sync storage, then the built-in default template.
+ *
+ * @returns The workspace URL template string.
+ */
+export async function getBaseUrlTemplate(): Promise<string> {
+	const res = await readSettings([STORAGE_KEYS.URL_TEMPLATE]);
+	return (res[STORAGE_KEYS.URL_TEMPLATE] as string | undefined) || DEFAULT_URL_TEMPLATE;
+}
+
+/**
+ * Loads the configured workspace profiles.
+ *
+ * When no profiles have been saved yet, a single "Default" profile is derived from the legacy
+ * `urlTemplate` setting so existing configurations keep working unchanged.
+ *
+ * @returns The profiles and the id of the default profile (always one of the returned profiles).
+ */
+export async function loadProfileSettings(): Promise<ProfileSettings> {
+	let profiles: WorkspaceProfile[] = [];
+
+	const res = await readSettings([STORAGE_KEYS.PROFILES, STORAGE_KEYS.DEFAULT_PROFILE_ID]);
+	if (Array.isArray(res[STORAGE_KEYS.PROFILES])) {
+		profiles = (res[STORAGE_KEYS.PROFILES] as WorkspaceProfile[]).filter(
+			(profile) => profile && profile.id && profile.urlTemplate
+		);
+	}
+	let defaultProfileId = (res[STORAGE_KEYS.DEFAULT_PROFILE_ID] as string | undefined) || "";
+
+	if (profiles.length === 0) {
+		profiles = [
+			{ id: "default", label: "Default", urlTemplate: await getBaseUrlTemplate() },
+		];
+	}
+
+	if (!profiles.some((profile) => profile.id === defaultProfileId)) {
+		defaultProfileId = profiles[0].id;
+	}
+
+	return { profiles, defaultProfileId };
+}
+
+/**
+ * Persists the workspace profiles.
+ *
+ * @param settings - The profiles and the id of the default profile.
+ */
+export async function saveProfileSettings(settings: ProfileSettings): Promise<void> {
+	await browser.storage.sync.set({
+		[STORAGE_KEYS.PROFILES]: settings.profiles,
+		[STORAGE_KEYS.DEFAULT_PROFILE_ID]: settings.defaultProfileId,
+	});
+}
+
+/**
+ * Orders profiles so the default profile comes first, keeping the remaining order stable.
+ *
+ * @param settings - The profiles and the id of the default profile.
+ * @returns The profiles with the default profile at index 0.
+ */
+export function orderProfilesByDefault(settings: ProfileSettings): WorkspaceProfile[] {
+	const defaultProfile = settings.profiles.find(
+		(profile) => profile.id === settings.defaultProfileId
+	);
+	const others = settings.profiles.filter(
+		(profile) => profile.id !== settings.defaultProfileId
+	);
+	return defaultProfile ? [defaultProfile, ...others] : others;
+}
+
+/**
+ * Loads the API tokens of the workspace platforms. They are kept in local storage, so they neither
+ * sync to other devices nor appear in exported settings.
+ *
+ * @returns The tokens by profile id.
+ */
+export async function loadPlatformTokens(): Promise<Record<string, string>> {
+	const res = await browser.storage.local.get(PLATFORM_TOKENS_KEY);
+	return (res[PLATFORM_TOKENS_KEY] as Record<string, string> | undefined) ?? {};
+}
+
+/**
+ * Persists the API tokens of the workspace platforms, replacing the stored ones.
+ *
+ * @param tokens - The tokens by profile id.
+ */
+export async function savePlatformTokens(tokens: Record<string, string>): Promise<void> {
+	await browser.storage.local.set({ [PLATFORM_TOKENS_KEY]: tokens });
+}
+
+/**
+ * Loads the parameter values a profile was last launched with from a repository. Like the launch
+ * history, they are kept in local storage.
+ *
+ * @param profileId - The profile.
+ * @param repository - The repository (see `repositoryKey()` in parameters.ts).
+ * @returns The values, or null if the profile hasn't been launched with options from the repository.
+ */
+export async function loadLastParameterValues(profileId: string, repository: string): Promise<ParameterValues | null> {
+	const res = await browser.storage.local.get(PARAMETER_VALUES_KEY);
+	const stored = res[PARAMETER_VALUES_KEY] as Record<string, Record<string, ParameterValues>> | undefined;
+	return stored?.[repository]?.[profileId] ?? null;
+}
+
+/**
+ * Remembers the parameter values a profile was launched with from a repository. Only the most
+ * recently used repositories are kept.
+ *
+ * @param profileId - The profile.
+ * @param repository - The repository (see `repositoryKey()` in parameters.ts).
+ * @param values - The values.
+ */
+export async function saveLastParameterValues(profileId: string, repository: string, values: ParameterValues): Promise<void> {
+	const res = await browser.storage.local.get(PARAMETER_VALUES_KEY);
+	const stored = { ...(res[PARAMETER_VALUES_KEY] as Record<string, Record<string, ParameterValues>> | undefined) };
+
+	const profiles = { ...stored[repository], [profileId]: values };
+	// Re-insert the repository so the object stays ordered from least to most recently used
+	delete stored[repository];
+	stored[repository] = profiles;
+	for (const key of Object.keys(stored).slice(0, -MAX_PARAMETER_REPOSITORIES)) {
+		delete stored[key];
+	}
+
+	await browser.storage.local.set({ [PARAMETER_VALUES_KEY]: stored });
+}
+
+// ============================================================================
+// Custom Hosts
+// ============================================================================
+
+/** The latest write of the detected hosts; the next one starts after it has finished. */
+let detectedHostsWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Loads the self-managed Git hosts configured by the user.
+ *
+ * @returns The configured hosts, or an empty list if none exist or storage access fails.
+ */
+export async function loadCustomHosts(): Promise<CustomHost[]> {
+	const hosts = (await readSettings([STORAGE_KEYS.CUSTOM_HOSTS]))[STORAGE_KEYS.CUSTOM_HOSTS];
+	return Array.isArray(hosts) ? (hosts as CustomHost[]) : [];
+}
+
+/**
+ * Loads the applications pages have shown to run on hosts that aren't configured. Like the launch
+ * history, they are kept in local storage.
+ *
+ * @returns The applications by host.
+ */
+export async function loadDetectedHosts(): Promise<Record<string, SupportedApplication>> {
+	const res = await browser.storage.local.get(DETECTED_HOSTS_KEY);
+	return (res[DETECTED_HOSTS_KEY] as Record<string, SupportedApplication> | undefined) ?? {};
+}
+
+/**
+ * Remembers the application a page showed to run on a host, after the writes already queued, so
+ * reports from several tabs don't overwrite each other.
+ *
+ * @param host - The host name, optionally with a port.
+ * @param application - The application the page showed.
+ * @returns A promise settling when the write has finished.
+ */
+export function saveDetectedHost(host: string, application: SupportedApplication): Promise<void> {
+	const write = detectedHostsWrite.then(async () => {
+		const hosts = await loadDetectedHosts();
+		if (hosts[host] === application) return;
+		await browser.storage.local.set({ [DETECTED_HOSTS_KEY]: { ...hosts, [host]: application } });
+	});
+	detectedHostsWrite = write.catch(() => undefined);
+	return write;
+}
+
+/**
+ * Persists the self-managed Git hosts.
+ *
+ * @param hosts - The configured hosts.
+ */
+export async function saveCustomHosts(hosts: CustomHost[]): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.CUSTOM_HOSTS]: hosts });
+}
+
+// ============================================================================
+// Routing Rules
+// ============================================================================
+
+/**
+ * Loads the ordered routing rules.
+ *
+ * @returns The rules in evaluation order, or an empty list if none exist or storage access fails.
+ */
+export async function loadRoutingRules(): Promise<RoutingRule[]> {
+	const rules = (await readSettings([STORAGE_KEYS.ROUTING_RULES]))[STORAGE_KEYS.ROUTING_RULES];
+	return Array.isArray(rules) ? (rules as RoutingRule[]) : [];
+}
+
+/**
+ * Persists the ordered routing rules.
+ *
+ * @param rules - The rules in evaluation order.
+ */
+export async function saveRoutingRules(rules: RoutingRule[]): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.ROUTING_RULES]: rules });
+}
+
+// ============================================================================
+// History Settings
+// ============================================================================
+
+/**
+ * Loads the retention limits of the launch history.
+ *
+ * @returns The stored limits, completed with defaults.
+ */
+export async function loadHistorySettings(): Promise<HistorySettings> {
+	const res = await readSettings([STORAGE_KEYS.HISTORY_SETTINGS]);
+	return {
+		...DEFAULT_HISTORY_SETTINGS,
+		...(res[STORAGE_KEYS.HISTORY_SETTINGS] as Partial<HistorySettings> | undefined),
+	};
+}
+
+/**
+ * Persists the retention limits of the launch history.
+ *
+ * @param settings - The retention limits.
+ */
+export async function saveHistorySettings(settings: HistorySettings): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.HISTORY_SETTINGS]: settings });
+}
+
+// ============================================================================
+// Button Appearance
+// ============================================================================
+
+/**
+ * Loads the appearance of the injected buttons.
+ *
+ * @returns The stored appearance, completed with defaults.
+ */
+export async function loadButtonAppearance(): Promise<ButtonAppearance> {
+	const res = await readSettings([STORAGE_KEYS.BUTTON_APPEARANCE]);
+	return {
+		...DEFAULT_BUTTON_APPEARANCE,
+		...(res[STORAGE_KEYS.BUTTON_APPEARANCE] as Partial<ButtonAppearance> | undefined),
+	};
+}
+
+/**
+ * Persists the appearance of the injected buttons.
+ *
+ * @param appearance - The button appearance.
+ */
+export async function saveButtonAppearance(appearance: ButtonAppearance): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.BUTTON_APPEARANCE]: appearance });
+}
+
+// ============================================================================
+// URL Safety
+// ============================================================================
+
+/**
+ * Loads how workspace URL templates are rendered.
+ *
+ * @returns The stored URL safety settings, completed with defaults.
+ */
+export async function loadUrlSafetySettings(): Promise<UrlSafetySettings> {
+	const res = await readSettings([STORAGE_KEYS.URL_SAFETY]);
+	return {
+		...DEFAULT_URL_SAFETY,
+		...(res[STORAGE_KEYS.URL_SAFETY] as Partial<UrlSafetySettings> | undefined),
+	};
+}
+
+/**
+ * Persists how workspace URL templates are rendered.
+ *
+ * @param settings - The URL safety settings.
+ */
+export async function saveUrlSafetySettings(settings: UrlSafetySettings): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.URL_SAFETY]: settings });
+}
+
+// ============================================================================
+// Custom Contributions
+// ============================================================================
+
+/**
+ * Loads the button contributions added or overridden by the user.
+ *
+ * @returns The contributions, or an empty list if none exist or storage access fails.
+ */
+export async function loadCustomContributions(): Promise<CustomContribution[]> {
+	const res = await readSettings([STORAGE_KEYS.CUSTOM_CONTRIBUTIONS]);
+	const contributions = res[STORAGE_KEYS.CUSTOM_CONTRIBUTIONS];
+	return Array.isArray(contributions) ? (contributions as CustomContribution[]) : [];
+}
+
+/**
+ * Persists the button contributions added or overridden by the user.
+ *
+ * @param contributions - The contributions.
+ */
+export async function saveCustomContributions(contributions: CustomContribution[]): Promise<void> {
+	await browser.storage.sync.set({ [STORAGE_KEYS.CUSTOM_CONTRIBUTIONS]: contributions });
+}
+
+/**
+ * Keeps an element picked on a page until the Options page takes it.
+ *
+ * @param picked - The picked element.
+ */
+export async function savePickedElement(picked: PickedElement): Promise<void> {
+	await browser.storage.local.set({ [PICKED_ELEMENT_KEY]: picked });
+}
+
+/**
+ * Takes the element last picked on a page, removing it from storage.
+ *
+ * @returns The picked element, or null if none is waiting.
+ */
+export async function takePickedElement(): Promise<PickedElement | null> {
+	const res = await browser.storage.local.get(PICKED_ELEMENT_KEY);
+	const picked = res[PICKED_ELEMENT_KEY] as PickedElement | undefined;
+	if (!picked) return null;
+
+	await browser.storage.local.remove(PICKED_ELEMENT_KEY);
+	return picked;
+}
+
+// ============================================================================
+// Import & Export
+// ============================================================================
+
+/**
+ * Upgrades an exported settings document by one schema version, keyed by the version it upgrades from.
+ * Version 1 is the flat, unversioned storage layout from before profiles existed.
+ */
+const SETTINGS_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+	// 1 → 2: the single legacy URL template becomes the "Default" profile
+	1: ({ [STORAGE_KEYS.URL_TEMPLATE]: urlTemplate, ...data }) => {
+		const hasProfiles = Array.isArray(data.profiles) && data.profiles.length > 0;
+		if (!hasProfiles && typeof urlTemplate === "string") {
+			data.profiles = [{ id: "default", label: "Default", urlTemplate }];
+			data.defaultProfileId = "default";
+		}
+		return { ...data, schemaVersion: 2 };
+	},
+};
+
+/**
+ * Checks that a value is a list of objects with the given required string fields.
+ *
+ * @param value - The value to check.
+ * @param fields - The fields every entry must have as a non-empty string.
+ * @param name - The setting name, used in the error message.
+ * @returns The value as a typed list, or an empty list if the value is missing.
+ * @throws If the value is not a list or an entry lacks a required field.
+ */
+function requireEntries<T>(value: unknown, fields: string[], name: string): T[] {
+	if (value === undefined) return [];
+	if (!Array.isArray(value)) {
+		throw new Error(`Invalid settings file: "${name}" must be a list`);
+	}
+	for (const entry of value) {
+		const missing = fields.find(
+			(field) => typeof entry?.[field] !== "string" || entry[field] === ""
+		);
+		if (missing) {
+			throw new Error(`Invalid settings file: every entry of "${name}" needs a "${missing}"`);
+		}
+	}
+	return value as T[];
+}
+
+/**
+ * Brings a parsed settings file of any schema version up to the current version and checks its shape.
+ *
+ * @param data - The parsed JSON document.
+ * @returns The settings in the current format.
+ * @throws If the document is not a settings export, is from a newer version, or is malformed.
+ */
+export function migrateSettings(data: unknown): SettingsExport {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) {
+		throw new Error("Invalid settings file: expected a JSON object");
+	}
+
+	let doc = data as Record<string, unknown>;
+	let version = typeof doc.schemaVersion === "number" ? doc.schemaVersion : 1;
+	if (version > SETTINGS_SCHEMA_VERSION) {
+		throw new Error(`Settings file is from a newer version (schema ${version})`);
+	}
+	while (version < SETTINGS_SCHEMA_VERSION) {
+		doc = SETTINGS_MIGRATIONS[version](doc);
+		version++;
+	}
+
+	const profiles = requireEntries<WorkspaceProfile>(
+		doc.profiles,
+		["id", "label", "urlTemplate"],
+		STORAGE_KEYS.PROFILES
+	);
+	if (profiles.length === 0) {
+		throw new Error("Invalid settings file: it contains no profiles");
+	}
+
+	const defaultProfileId = profiles.some((profile) => profile.id === doc.defaultProfileId)
+		? (doc.defaultProfileId as string)
+		: profiles[0].id;
+
+	return {
+		schemaVersion: SETTINGS_SCHEMA_VERSION,
+		profiles,
+		defaultProfileId,
+		customHosts: requireEntries<CustomHost>(
+			doc.customHosts,
+			["host", "provider"],
+			STORAGE_KEYS.CUSTOM_HOSTS
+		),
+		routingRules: requireEntries<RoutingRule>(
+			doc.routingRules,
+			["id", "label"],
+			STORAGE_KEYS.ROUTING_RULES
+		),
+		historySettings: {
+			...DEFAULT_HISTORY_SETTINGS,
+			...(doc.historySettings as Partial<HistorySettings> | undefined),
+		},
+		customContributions: requireEntries<CustomContribution>(
+			doc.customContributions,
+			["id", "application"],
+			STORAGE_KEYS.CUSTOM_CONTRIBUTIONS
+		),
+		buttonAppearance: {
+			...DEFAULT_BUTTON_APPEARANCE,
+			...(doc.buttonAppearance as Partial<ButtonAppearance> | undefined),
+		},
+		urlSafety: {
+			...DEFAULT_URL_SAFETY,
+			...(doc.urlSafety as Partial<UrlSafetySettings> | undefined),
+		},
+	};
+}
+
+/**
+ * Collects the effective settings into a single document for export.
+ *
+ * @returns The settings in the current export format.
+ */
+export async function exportSettings(): Promise<SettingsExport> {
+	const { profiles, defaultProfileId } = await loadProfileSettings();
+	return {
+		schemaVersion: SETTINGS_SCHEMA_VERSION,
+		profiles,
+		defaultProfileId,
+		customHosts: await loadCustomHosts(),
+		routingRules: await loadRoutingRules(),
+		historySettings: await loadHistorySettings(),
+		customContributions: await loadCustomContributions(),
+		buttonAppearance: await loadButtonAppearance(),
+		urlSafety: await loadUrlSafetySettings(),
+	};
+}
+
+/**
+ * Replaces the user's settings with an imported document. Settings locked by policy are left untouched.
+ *
+ * @param settings - The settings, as returned by `migrateSettings()`.
+ * @returns The keys that were skipped because they are locked.
+ */
+export async function importSettings(settings: SettingsExport): Promise<SettingKey[]> {
+	const values: Partial<Record<SettingKey, unknown>> = {
+		[STORAGE_KEYS.PROFILES]: settings.profiles,
+		[STORAGE_KEYS.DEFAULT_PROFILE_ID]: settings.defaultProfileId,
+		[STORAGE_KEYS.CUSTOM_HOSTS]: settings.customHosts,
+		[STORAGE_KEYS.ROUTING_RULES]: settings.routingRules,
+		[STORAGE_KEYS.HISTORY_SETTINGS]: settings.historySettings,
+		[STORAGE_KEYS.CUSTOM_CONTRIBUTIONS]: settings.customContributions,
+		[STORAGE_KEYS.BUTTON_APPEARANCE]: settings.buttonAppearance,
+		[STORAGE_KEYS.URL_SAFETY]: settings.urlSafety,
+	};
+
+	const locked = await loadLockedSettings();
+	const skipped = (Object.keys(values) as SettingKey[]).filter((key) => locked.has(key));
+	for (const key of skipped) {
+		delete values[key];
+	}
+
+	await browser.storage.sync.set(values);
+	return skipped;
+}
@@ -0,0 +1,193 @@
+/**
+ * Extension-specific Liquid filters and tags, for turning page context values into workspace names,
+ * hostnames and URL parameters.
+ *
+ * Workspace platforms typically require names to be DNS-safe and short (Coder allows 32 characters,
+ * a DNS label 63), which the built-in filters only approximate with `slice` and `replace`. Every engine
+ * in template.ts registers these, so the content script, the background worker and the Options preview
+ * accept and render the same templates.
+ */
+
+import { Tag, Value, type Context, type Liquid, type TagToken, type TopLevelToken } from "liquidjs";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum length of a DNS label (RFC 1035). */
+const DNS_LABEL_MAX_LENGTH = 63;
+
+/** Length of the hash `dns_label` appends when it has to shorten a name. */
+const DNS_LABEL_HASH_LENGTH = 6;
+
+/** Length of the hash returned by `hash` without an argument. */
+const DEFAULT_HASH_LENGTH = 8;
+
+/** The longest hash `hash` returns: 64 bits in hex. */
+const MAX_HASH_LENGTH = 16;
+
+/** 64-bit FNV-1a parameters. */
+const FNV_OFFSET_BASIS = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const UINT64_MASK = 0xffffffffffffffffn;
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+/**
+ * Converts a filter input to a string; null and undefined become empty.
+ *
+ * @param value - The filter input.
+ * @returns The string.
+ */
+function toText(value: unknown): string {
+	return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Lower-cases a value and joins its runs of letters and digits with hyphens, dropping accents.
+ *
+ * @param value - The filter input, e.g. "Feature/Crème brûlée".
+ * @returns The slug, e.g. "feature-creme-brulee".
+ */
+export function slugify(value: unknown): string {
+	return toText(value)
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Like `slugify`, but also splits camelCase words, e.g. for names derived from class-like identifiers.
+ *
+ * @param value - The filter input, e.g. "fixLoginForm_v2".
+ * @returns The kebab-case name, e.g. "fix-login-form-v2".
+ */
+export function lowerKebab(value: unknown): string {
+	return slugify(toText(value).replace(/([a-z0-9])([A-Z])/g, "$1-$2").replace(/([A-Z])([A-Z][a-z])/g, "$1-$2"));
+}
+
+/**
+ * The `hash` filter: a short, stable hash of a value, e.g. to keep derived names unique. It is the
+ * 64-bit FNV-1a hash of the value's UTF-8 bytes, in hex, which is fast and the same in every browser
+ * but not cryptographic: don't rely on it to hide or protect values.
+ *
+ * @param value - The filter input.
+ * @param length - Number of hex digits, 1 to 16 (8 by default); shorter or longer lengths are clamped.
+ * @returns The hash.
+ */
+export function shortHash(value: unknown, length: unknown = DEFAULT_HASH_LENGTH): string {
+	let hash = FNV_OFFSET_BASIS;
+	for (const byte of new TextEncoder().encode(toText(value))) {
+		hash = ((hash ^ BigInt(byte)) * FNV_PRIME) & UINT64_MASK;
+	}
+
+	const requested = Math.trunc(Number(length));
+	const digits = Math.min(Math.max(Number.isNaN(requested) ? DEFAULT_HASH_LENGTH : requested, 1), MAX_HASH_LENGTH);
+	return hash.toString(16).padStart(MAX_HASH_LENGTH, "0").slice(0, digits);
+}
+
+/**
+ * Turns a value into a DNS label: lower-case letters, digits and inner hyphens. A name longer than
+ * the limit is shortened and ends in a hash of the full name, so distinct names stay distinct.
+ *
+ * @param value - The filter input, e.g. "Feature/Login_Form".
+ * @param maxLength - Maximum length (63 by default), e.g. 32 for Coder workspace names.
+ * @returns The label, e.g. "feature-login-form"; empty if nothing usable remains.
+ */
+export function dnsLabel(value: unknown, maxLength: unknown = DNS_LABEL_MAX_LENGTH): string {
+	const limit = Math.min(Math.max(Math.trunc(Number(maxLength)) || DNS_LABEL_MAX_LENGTH, 1), DNS_LABEL_MAX_LENGTH);
+	const label = slugify(value);
+	if (label.length <= limit) return label;
+
+	if (limit <= DNS_LABEL_HASH_LENGTH + 1) {
+		return shortHash(value, limit);
+	}
+	const head = label.slice(0, limit - DNS_LABEL_HASH_LENGTH - 1).replace(/-+$/, "");
+	return `${head}-${shortHash(value, DNS_LABEL_HASH_LENGTH)}`;
+}
+
+/**
+ * Shortens a value to a length by cutting out its middle, keeping its start and end.
+ *
+ * @param value - The filter input.
+ * @param length - Maximum length of the result, including the separator (20 by default).
+ * @param separator - What replaces the removed middle ("..." by default, like `truncate`).
+ * @returns The shortened value, or the value itself if it is short enough; just its start if the
+ *   length leaves no room beside the separator.
+ */
+export function truncateMiddle(value: unknown, length: unknown = 20, separator: unknown = "..."): string {
+	const text = toText(value);
+	const joiner = toText(separator);
+	const limit = Math.max(Math.trunc(Number(length)) || 20, 0);
+	if (text.length <= limit) return text;
+	if (limit <= joiner.length) return text.slice(0, limit);
+
+	const kept = limit - joiner.length;
+	const head = Math.ceil(kept / 2);
+	return `${text.slice(0, head)}${joiner}${text.slice(text.length - (kept - head))}`;
+}
+
+/**
+ * Encodes a value as URL-safe Base64 without padding (RFC 4648, section 5).
+ *
+ * @param value - The filter input; encoded as UTF-8.
+ * @returns The encoded value.
+ */
+export function base64Url(value: unknown): string {
+	const binary = Array.from(new TextEncoder().encode(toText(value)), (byte) => String.fromCharCode(byte)).join("");
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * `{% default name = value %}` sets a variable only if it is missing or empty, e.g.
+ * `{% default branchName = 'main' %}`; the value may use filters like `{% assign %}`.
+ */
+class DefaultTag extends Tag {
+	private readonly key: string;
+	private readonly value: Value;
+
+	constructor(token: TagToken, remainTokens: TopLevelToken[], liquid: Liquid) {
+		super(token, remainTokens, liquid);
+		this.key = this.tokenizer.readIdentifier().content;
+		this.tokenizer.assert(this.key, "expected variable name");
+		this.tokenizer.skipBlank();
+		this.tokenizer.assert(this.tokenizer.peek() === "=", 'expected "="');
+		this.tokenizer.advance();
+		this.value = new Value(this.tokenizer.readFilteredValue(), liquid);
+	}
+
+	*render(ctx: Context): Generator<unknown, void, unknown> {
+		// Read without the strict variables check: a missing variable is what this tag is for
+		const current = (ctx.getAll() as Record<string, unknown>)[this.key];
+		if (current !== undefined && current !== null && current !== "") return;
+
+		(ctx.bottom() as Record<string, unknown>)[this.key] = yield this.value.value(ctx, this.liquid.options.lenientIf);
+	}
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Registers the extension's filters and tags with a Liquid engine.
+ *
+ * @param liquid - The engine.
+ */
+export function registerTemplateExtensions(liquid: Liquid): void {
+	liquid.registerFilter("slugify", slugify);
+	liquid.registerFilter("lower_kebab", lowerKebab);
+	liquid.registerFilter("dns_label", dnsLabel);
+	liquid.registerFilter("hash", shortHash);
+	liquid.registerFilter("truncate_middle", truncateMiddle);
+	liquid.registerFilter("base64url", base64Url);
+	liquid.registerTag("default", DefaultTag);
+}
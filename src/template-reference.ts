@@ -0,0 +1,206 @@
+/**
+ * Reference material for the template editor in the Options page: the variables a template can use,
+ * the most useful filters (including the extension's own, see template-filters.ts), its tags, and
+ * sample page contexts to preview templates against.
+ *
+ * Keep `TEMPLATE_VARIABLES` in sync with `PageContext` in page-context.ts.
+ */
+
+import type { PageContext } from "./page-context";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A documented template variable or filter. */
+export interface ReferenceEntry {
+	/** The name as written in a template. */
+	name: string;
+	/** A short description of the value or behavior. */
+	description: string;
+	/** An example usage (optional). */
+	example?: string;
+}
+
+/** A named page context to preview templates against. */
+export interface SampleContext {
+	id: string;
+	label: string;
+	context: PageContext;
+}
+
+// ============================================================================
+// Variables & Filters
+// ============================================================================
+
+/** Every variable provided by `PageContext`. */
+export const TEMPLATE_VARIABLES: ReferenceEntry[] = [
+	{ name: "repoUrl", description: "Normalized repository URL; on GitHub, GitLab and Gitea including the branch tree path when on a branch." },
+	{ name: "branchName", description: "The branch, tag or commit being viewed (see refType), or the PR/MR head (source) branch." },
+	{ name: "refType", description: "What branchName names: branch, tag or commit." },
+	{ name: "owner", description: "Repository owner: user, organization, or GitLab group path." },
+	{ name: "repo", description: "Repository name." },
+	{ name: "host", description: "Git host, e.g. github.com." },
+	{ name: "provider", description: "github, gitlab, bitbucket, bitbucket-server, azure-devops or gitea." },
+	{ name: "cloneUrlHttps", description: "HTTPS clone URL." },
+	{ name: "cloneUrlSsh", description: "SSH clone URL." },
+	{ name: "prNumber", description: "Pull request number (pull request pages)." },
+	{ name: "mrIid", description: "Merge request IID (GitLab merge request pages)." },
+	{ name: "headRepoUrl", description: "Repository the PR/MR changes come from; the fork for PRs from forks." },
+	{ name: "headBranch", description: "Branch with the PR/MR changes." },
+	{ name: "baseRepoUrl", description: "Repository the PR/MR is merged into (where the provider exposes it)." },
+	{ name: "baseBranch", description: "Branch the PR/MR is merged into (where the provider exposes it)." },
+	{ name: "commitSha", description: "Commit SHA (commit pages)." },
+	{ name: "filePath", description: "Repository-relative file path (file pages)." },
+	{ name: "lineRange", description: "Selected line or range, e.g. 42 or 10-20 (file pages)." },
+];
+
+/** Built-in Liquid filters that are most useful in URL templates. */
+export const TEMPLATE_FILTERS: ReferenceEntry[] = [
+	{ name: "url_encode", description: "Percent-encodes a value for use in a query string.", example: "{{ repoUrl | url_encode }}" },
+	{ name: "url_decode", description: "Decodes a percent-encoded value." },
+	{ name: "raw", description: "In safe mode, inserts a value without percent-encoding it.", example: "{{ repoUrl | raw }}" },
+	{ name: "default", description: "Falls back to a value when the variable is empty.", example: "{{ branchName | default: 'main' }}" },
+	{ name: "slice", description: "Takes a substring by offset and length.", example: "{{ branchName | slice: 0, 20 }}" },
+	{ name: "truncate", description: "Shortens a value to a length, adding an ellipsis." },
+	{ name: "downcase", description: "Converts to lower case." },
+	{ name: "upcase", description: "Converts to upper case." },
+	{ name: "replace", description: "Replaces every occurrence of a substring.", example: "{{ branchName | replace: '/', '-' }}" },
+	{ name: "remove", description: "Removes every occurrence of a substring." },
+	{ name: "append", description: "Appends a string." },
+	{ name: "prepend", description: "Prepends a string." },
+	{ name: "split", description: "Splits a string into an array." },
+	{ name: "strip", description: "Removes surrounding whitespace." },
+	{ name: "base64_encode", description: "Encodes a value as Base64." },
+	{ name: "sha256", description: "SHA-256 hash of a value, as hex." },
+	{ name: "slugify", description: "Lower-cases a value and joins its words with hyphens, dropping accents.", example: "{{ branchName | slugify }}" },
+	{ name: "lower_kebab", description: "Like slugify, but also splits camelCase words." },
+	{ name: "dns_label", description: "Makes a DNS-safe name of at most 63 (or the given) characters, ending in a hash when shortened.", example: "{{ repo | append: '-' | append: branchName | dns_label: 32 }}" },
+	{ name: "hash", description: "Short stable hash of a value, 8 (or the given number of) hex digits.", example: "{{ repoUrl | hash: 6 }}" },
+	{ name: "truncate_middle", description: "Shortens a value by cutting out its middle.", example: "{{ branchName | truncate_middle: 20, '-' }}" },
+	{ name: "base64url", description: "Encodes a value as URL-safe Base64 without padding." },
+];
+
+/** The extension's own Liquid tags. */
+export const TEMPLATE_TAGS: ReferenceEntry[] = [
+	{ name: "default", description: "Sets a variable only if it is missing or empty.", example: "{% default branchName = 'main' %}" },
+];
+
+// ============================================================================
+// Sample Contexts
+// ============================================================================
+
+/** Page contexts representative of the pages the button appears on. */
+export const SAMPLE_CONTEXTS: SampleContext[] = [
+	{
+		id: "github-repo",
+		label: "GitHub repository",
+		context: {
+			repoUrl: "https://github.com/eons-dev/dev.workspace.browser.ext",
+			owner: "eons-dev",
+			repo: "dev.workspace.browser.ext",
+			host: "github.com",
+			provider: "github",
+			cloneUrlHttps: "https://github.com/eons-dev/dev.workspace.browser.ext.git",
+			cloneUrlSsh: "git@github.com:eons-dev/dev.workspace.browser.ext.git",
+		},
+	},
+	{
+		id: "github-branch",
+		label: "GitHub branch",
+		context: {
+			repoUrl: "https://github.com/eons-dev/dev.workspace.browser.ext/tree/develop",
+			branchName: "develop",
+			refType: "branch",
+			owner: "eons-dev",
+			repo: "dev.workspace.browser.ext",
+			host: "github.com",
+			provider: "github",
+			cloneUrlHttps: "https://github.com/eons-dev/dev.workspace.browser.ext.git",
+			cloneUrlSsh: "git@github.com:eons-dev/dev.workspace.browser.ext.git",
+		},
+	},
+	{
+		id: "github-pull",
+		label: "GitHub pull request from a fork",
+		context: {
+			repoUrl: "https://github.com/octocat/dev.workspace.browser.ext/tree/fix-popup",
+			branchName: "fix-popup",
+			refType: "branch",
+			owner: "eons-dev",
+			repo: "dev.workspace.browser.ext",
+			host: "github.com",
+			provider: "github",
+			cloneUrlHttps: "https://github.com/eons-dev/dev.workspace.browser.ext.git",
+			cloneUrlSsh: "git@github.com:eons-dev/dev.workspace.browser.ext.git",
+			prNumber: 42,
+			headRepoUrl: "https://github.com/octocat/dev.workspace.browser.ext",
+			headBranch: "fix-popup",
+			baseRepoUrl: "https://github.com/eons-dev/dev.workspace.browser.ext",
+			baseBranch: "main",
+		},
+	},
+	{
+		id: "github-file",
+		label: "GitHub file with lines",
+		context: {
+			repoUrl: "https://github.com/eons-dev/dev.workspace.browser.ext/tree/main",
+			branchName: "main",
+			refType: "branch",
+			owner: "eons-dev",
+			repo: "dev.workspace.browser.ext",
+			host: "github.com",
+			provider: "github",
+			cloneUrlHttps: "https://github.com/eons-dev/dev.workspace.browser.ext.git",
+			cloneUrlSsh: "git@github.com:eons-dev/dev.workspace.browser.ext.git",
+			filePath: "src/content.ts",
+			lineRange: "10-20",
+		},
+	},
+	{
+		id: "gitlab-mr",
+		label: "GitLab merge request",
+		context: {
+			repoUrl: "https://gitlab.com/eons/platform/launcher/-/tree/feature/login-form",
+			branchName: "feature/login-form",
+			refType: "branch",
+			owner: "eons/platform",
+			repo: "launcher",
+			host: "gitlab.com",
+			provider: "gitlab",
+			cloneUrlHttps: "https://gitlab.com/eons/platform/launcher.git",
+			cloneUrlSsh: "git@gitlab.com:eons/platform/launcher.git",
+			mrIid: 7,
+			headBranch: "feature/login-form",
+		},
+	},
+	{
+		id: "gitlab-commit",
+		label: "GitLab commit",
+		context: {
+			repoUrl: "https://gitlab.com/eons/platform/launcher",
+			owner: "eons/platform",
+			repo: "launcher",
+			host: "gitlab.com",
+			provider: "gitlab",
+			cloneUrlHttps: "https://gitlab.com/eons/platform/launcher.git",
+			cloneUrlSsh: "git@gitlab.com:eons/platform/launcher.git",
+			commitSha: "82d701a9ac26ea25da9b24c5b3722b7a89e43b16",
+		},
+	},
+	{
+		id: "gitea-branch",
+		label: "Gitea branch",
+		context: {
+			repoUrl: "https://gitea.com/gitea/tea/src/branch/main",
+			branchName: "main",
+			refType: "branch",
+			owner: "gitea",
+			repo: "tea",
+			host: "gitea.com",
+			provider: "gitea",
+			cloneUrlHttps: "https://gitea.com/gitea/tea.git",
+			cloneUrlSsh: "git@gitea.com:gitea/tea.git",
+		},
+	},
+];
@@ -0,0 +1,153 @@
+/**
+ * The Liquid engine shared by everything that renders or checks workspace URL templates.
+ *
+ * The content script and background worker render templates through `renderTemplate()`; the Options
+ * page uses the same engine for validation and live previews, so what the editor accepts is exactly
+ * what the button renders. Workspace URLs in safe mode are rendered by `renderSafeUrl()` instead
+ * (see url-safety.ts), and JSON request bodies by `renderJsonTemplate()`. Every engine has the
+ * extension's own filters and tags (see template-filters.ts).
+ */
+
+import { Liquid, type LiquidError } from "liquidjs";
+import { registerTemplateExtensions } from "./template-filters";
+import { encodeTemplateOutputs, markTemplateOutput } from "./url-safety";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A template syntax error with its position in the template. */
+export interface TemplateError {
+	/** The error description, without the position suffix. */
+	message: string;
+	/** 1-based line of the offending token, if known. */
+	line?: number;
+	/** 1-based column of the offending token, if known. */
+	column?: number;
+}
+
+// ============================================================================
+// Engines
+// ============================================================================
+
+/** Liquid.js engine used for rendering workspace URLs from templates. */
+const liquid = new Liquid();
+
+/** Stricter engine used for validation only, so typos in filter names are reported. */
+const validationLiquid = new Liquid({ strictFilters: true });
+
+/**
+ * Engine of the safe URL rendering mode: unknown variables and filters are errors, and every output is
+ * marked for context-aware encoding (`| raw` opts out).
+ */
+const safeUrlLiquid = new Liquid({
+	strictFilters: true,
+	strictVariables: true,
+	outputEscape: markTemplateOutput,
+});
+
+/**
+ * Escapes an output for the inside of a JSON string, so it can't end the string or add to the document.
+ *
+ * @param value - The output, after its filters.
+ * @returns The escaped text, without the surrounding quotes.
+ */
+function escapeJsonString(value: unknown): string {
+	return value === undefined || value === null ? "" : JSON.stringify(String(value)).slice(1, -1);
+}
+
+/**
+ * Engine of JSON request bodies: every output is escaped for a JSON string (`| raw` opts out), except
+ * that of the `json` filter, which is a complete JSON value already.
+ */
+const jsonLiquid = new Liquid({ outputEscape: escapeJsonString });
+
+for (const engine of [liquid, validationLiquid, safeUrlLiquid, jsonLiquid]) {
+	registerTemplateExtensions(engine);
+}
+
+// The outputs are encoded already: spaces become "%20", which the encoding keeps, rather than "+"
+safeUrlLiquid.registerFilter("url_encode", (value: unknown) => encodeURIComponent(String(value ?? "")));
+
+jsonLiquid.registerFilter("json", {
+	handler: (value: unknown, space?: number) => JSON.stringify(value, null, space),
+	raw: true,
+});
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Renders a template against a scope.
+ *
+ * @param template - The Liquid template string (e.g. "{{ repoUrl }}").
+ * @param scope - The variables available to the template.
+ * @returns The rendered output.
+ * @throws If the template cannot be parsed or rendered.
+ */
+export async function renderTemplate(template: string, scope: object): Promise<string> {
+	return liquid.parseAndRender(template, scope);
+}
+
+/**
+ * Renders a URL template in safe mode: unknown variables are errors and every output is
+ * percent-encoded for the part of the URL it appears in.
+ *
+ * @param template - The Liquid template string (e.g. "https://ws.example.com/?repo={{ repoUrl }}").
+ * @param scope - The variables available to the template; optional ones that are unset must be null.
+ * @returns The rendered URL.
+ * @throws If the template cannot be parsed or rendered, or uses an unknown variable.
+ */
+export async function renderSafeUrl(template: string, scope: object): Promise<string> {
+	return encodeTemplateOutputs(await safeUrlLiquid.parseAndRender(template, scope));
+}
+
+/**
+ * Renders the template of a JSON document, such as a request body. Outputs are escaped for a JSON
+ * string, so `"{{ branchName }}"` stays one string whatever the branch is called; `{{ value | json }}`
+ * writes a complete JSON value.
+ *
+ * @param template - The Liquid template string (e.g. '{"branch": "{{ branchName }}"}').
+ * @param scope - The variables available to the template.
+ * @returns The rendered document.
+ * @throws If the template cannot be parsed or rendered.
+ */
+export async function renderJsonTemplate(template: string, scope: object): Promise<string> {
+	return jsonLiquid.parseAndRender(template, scope);
+}
+
+/**
+ * Converts an error thrown by Liquid into a positioned template error.
+ *
+ * @param error - The thrown error.
+ * @returns The error message and its position, if available.
+ */
+export function toTemplateError(error: unknown): TemplateError {
+	const liquidError = error as Partial<LiquidError>;
+	const message = String(liquidError?.message ?? error).replace(/, line:\d+, col:\d+$/, "");
+	const position = liquidError?.token?.getPosition?.();
+
+	return position
+		? { message, line: position[0], column: position[1] }
+		: { message };
+}
+
+/**
+ * Parses a template and reports the first syntax error.
+ *
+ * @param template - The Liquid template string.
+ * @returns The syntax error, or null if the template is valid.
+ */
+export function validateTemplate(template: string): TemplateError | null {
+	if (!template.trim()) {
+		return { message: "Template is empty" };
+	}
+
+	try {
+		validationLiquid.parse(template);
+		return null;
+	} catch (error) {
+		return toTemplateError(error);
+	}
+}
@@ -0,0 +1,83 @@
+/**
+ * Detects whether the host page shows a dark theme, so the injected buttons can switch their colors.
+ *
+ * Most hosts expose their theme on the root element (GitHub's and Bitbucket's `data-color-mode`,
+ * GitLab's `gl-dark` class, Gitea's `data-theme`); a theme following the system setting is resolved
+ * with `prefers-color-scheme`. Pages without such a marker (e.g. Azure DevOps) are judged by the
+ * brightness of their background.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Markers of an explicitly dark theme. */
+const DARK_THEME_SELECTORS = [
+	// GitHub and Bitbucket Cloud (Atlassian design tokens)
+	"html[data-color-mode='dark']",
+	// GitLab, on the root element in recent versions and on the body before
+	"html.gl-dark",
+	"body.gl-dark",
+	// Gitea and Forgejo theme names, e.g. "gitea-dark" or "forgejo-dark"
+	"html[data-theme*='dark']",
+].join(", ");
+
+/** Markers of a theme following the system setting. */
+const SYSTEM_THEME_SELECTORS = [
+	"html[data-color-mode='auto']",
+	"html[data-theme$='-auto']",
+].join(", ");
+
+/** Backgrounds with a relative luminance below this are considered dark. */
+const DARK_LUMINANCE_THRESHOLD = 0.4;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Computes the relative luminance of a computed CSS color.
+ *
+ * @param color - A computed color, e.g. "rgb(13, 17, 23)" or "rgba(0, 0, 0, 0)".
+ * @returns The luminance between 0 and 1, or null if the color is transparent or can't be read.
+ */
+function relativeLuminance(color: string): number | null {
+	const channels = color.match(/[\d.]+/g)?.map(Number);
+	if (!channels || channels.length < 3 || channels[3] === 0) return null;
+
+	const [red, green, blue] = channels.map((channel) => {
+		const value = channel / 255;
+		return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+	});
+	return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * Reads the luminance of the page background, from the body or, if it is transparent, the root.
+ *
+ * @returns The luminance between 0 and 1, or null if neither element has a background color.
+ */
+function pageBackgroundLuminance(): number | null {
+	for (const element of [document.body, document.documentElement]) {
+		if (!element) continue;
+		const luminance = relativeLuminance(getComputedStyle(element).backgroundColor);
+		if (luminance !== null) return luminance;
+	}
+	return null;
+}
+
+/**
+ * Checks whether the page currently shows a dark theme.
+ *
+ * @returns True if the page is dark.
+ */
+export function isDarkTheme(): boolean {
+	if (document.querySelector(DARK_THEME_SELECTORS)) return true;
+
+	if (document.querySelector(SYSTEM_THEME_SELECTORS)) {
+		return window.matchMedia?.("(prefers-color-scheme: dark)").matches ?? false;
+	}
+
+	const luminance = pageBackgroundLuminance();
+	return luminance !== null && luminance < DARK_LUMINANCE_THRESHOLD;
+}
@@ -0,0 +1,44 @@
+/**
+ * A brief notification shown inside a web page.
+ *
+ * The background worker injects `showPageToast` with `scripting.executeScript`, which serializes the
+ * function: it must stay self-contained (no imports, no outer variables) and style itself inline,
+ * because it also runs on pages where the extension's stylesheet is not loaded.
+ */
+
+/**
+ * Shows a toast in the bottom right corner of the page for a few seconds.
+ *
+ * @param message - The text to show.
+ */
+export function showPageToast(message: string): void {
+	const TOAST_ID = "eons-toast";
+	const DISPLAY_MS = 3000;
+
+	document.getElementById(TOAST_ID)?.remove();
+
+	const toast = document.createElement("div");
+	toast.id = TOAST_ID;
+	toast.setAttribute("role", "status");
+	toast.textContent = message;
+	Object.assign(toast.style, {
+		position: "fixed",
+		right: "24px",
+		bottom: "24px",
+		zIndex: "2147483647",
+		maxWidth: "360px",
+		padding: "12px 16px",
+		borderRadius: "8px",
+		background: "#2b303f",
+		color: "#f3f4f6",
+		font: "14px/1.4 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+		boxShadow: "0 8px 24px rgba(0, 0, 0, 0.35)",
+		transition: "opacity 0.3s ease",
+	});
+
+	document.body.appendChild(toast);
+	setTimeout(() => {
+		toast.style.opacity = "0";
+		setTimeout(() => toast.remove(), 300);
+	}, DISPLAY_MS);
+}
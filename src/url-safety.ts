@@ -0,0 +1,182 @@
+/**
+ * Safe rendering of workspace URLs: context-aware encoding of template outputs and validation of the
+ * rendered URL.
+ *
+ * In safe mode, the template engine wraps every `{{ output }}` in private-use marker characters
+ * (see `markTemplateOutput()`). `encodeTemplateOutputs()` then percent-encodes each marked value for
+ * the part of the URL it landed in: path values keep their slashes, query and fragment parameter
+ * values are encoded completely, and values in the scheme or host are left alone, since the host is
+ * validated instead. Escapes already in a value (e.g. from `| url_encode`) are kept as they are.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Marks the start of a template output in the rendered text. */
+const OUTPUT_START = "\uE000";
+
+/** Marks the end of a template output in the rendered text. */
+const OUTPUT_END = "\uE001";
+
+/** A marked output: the marker characters around a value that contains none of them. */
+const MARKED_OUTPUT = /\uE000([^\uE000\uE001]*)\uE001/g;
+
+/** Text before the end of the host: an optional scheme and an authority without path. */
+const ORIGIN_PREFIX = /^([a-z][a-z\d+.-]*:)?(\/\/[^/?#]*)?$/i;
+
+/** The fixed origin a template starts with, before its first output or tag. */
+const TEMPLATE_ORIGIN = /^https?:\/\/[^/{}?#]+/i;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where in a URL a template output appears, which decides how it is encoded. */
+type UrlPart = "origin" | "path" | "query";
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Determines the part of a URL that text following a prefix belongs to.
+ *
+ * @param prefix - The rendered URL up to the output.
+ * @returns The part of the URL.
+ */
+function urlPartAt(prefix: string): UrlPart {
+	const hash = prefix.indexOf("#");
+	if (hash < 0) {
+		if (prefix.includes("?")) return "query";
+		return ORIGIN_PREFIX.test(prefix) ? "origin" : "path";
+	}
+	// Single-page apps (e.g. Kasm's "#/cast/dev?kasm_url=…") keep a path and a query in the fragment
+	return prefix.slice(hash + 1).includes("?") ? "query" : "path";
+}
+
+/**
+ * Percent-encodes a value, keeping the escapes it already contains.
+ *
+ * @param value - The output value.
+ * @param keepSlashes - Whether slashes stay as they are (for path values).
+ * @returns The encoded value.
+ */
+function encodeValue(value: string, keepSlashes: boolean): string {
+	return value
+		.split(/(%[\dA-Fa-f]{2})/)
+		.map((part, index) => {
+			if (index % 2 === 1) return part;
+			return keepSlashes ? part.split("/").map(encodeURIComponent).join("/") : encodeURIComponent(part);
+		})
+		.join("");
+}
+
+/**
+ * Wraps a template output in the marker characters, as the output escape of the safe engine.
+ *
+ * @param value - The output value, after filters.
+ * @returns The marked value; null and undefined render as nothing.
+ */
+export function markTemplateOutput(value: unknown): string {
+	const text = value === null || value === undefined ? "" : String(value);
+	return `${OUTPUT_START}${text.replace(/[\uE000\uE001]/g, "")}${OUTPUT_END}`;
+}
+
+/**
+ * Percent-encodes every marked output of a rendered URL for the part of the URL it appears in, and
+ * removes the markers.
+ *
+ * @param rendered - The URL rendered with marked outputs.
+ * @returns The encoded URL.
+ */
+export function encodeTemplateOutputs(rendered: string): string {
+	let result = "";
+	let position = 0;
+	for (const match of rendered.matchAll(MARKED_OUTPUT)) {
+		result += rendered.slice(position, match.index);
+		const part = urlPartAt(result);
+		result += part === "origin" ? match[1] : encodeValue(match[1], part === "path");
+		position = (match.index ?? 0) + match[0].length;
+	}
+	return result + rendered.slice(position);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Determines the host a template's URLs always point to, if it starts with a fixed http(s) origin.
+ *
+ * @param template - The URL template (optional).
+ * @returns The host (with port, if any), or null if the template's origin is not fixed.
+ */
+export function templateHost(template: string | undefined): string | null {
+	const origin = template?.match(TEMPLATE_ORIGIN)?.[0];
+	if (!origin) return null;
+
+	try {
+		return new URL(origin).host;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Checks a host against a list of allowed hosts.
+ *
+ * @param host - The host, optionally with a port.
+ * @param allowedHosts - Host names, with a port to allow only that port, or "*." to also allow subdomains.
+ * @returns True if the host is allowed.
+ */
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+	const hostWithPort = host.toLowerCase();
+	const hostName = hostWithPort.replace(/:\d+$/, "");
+
+	return allowedHosts.some((entry) => {
+		const pattern = entry.trim().toLowerCase();
+		if (!pattern) return false;
+		const candidate = pattern.includes(":") ? hostWithPort : hostName;
+		if (pattern.startsWith("*.")) {
+			const domain = pattern.slice(2);
+			return candidate === domain || candidate.endsWith(`.${domain}`);
+		}
+		return candidate === pattern;
+	});
+}
+
+/**
+ * Validates the scheme of a workspace URL: it must be an http(s) URL, whatever its host.
+ *
+ * @param url - The workspace URL.
+ * @returns The parsed URL.
+ * @throws With the reason if the URL is rejected.
+ */
+export function checkWorkspaceUrlScheme(url: string): URL {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw new Error(`"${url}" is not a valid URL`);
+	}
+
+	if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+		throw new Error(`${parsed.protocol} URLs can't be opened; workspace URLs must use http or https`);
+	}
+	return parsed;
+}
+
+/**
+ * Validates a rendered workspace URL: it must be an http(s) URL on an allowed host.
+ *
+ * @param url - The rendered URL.
+ * @param allowedHosts - The allowed hosts (see `isHostAllowed()`).
+ * @throws With the reason if the URL is rejected.
+ */
+export function checkWorkspaceUrl(url: string, allowedHosts: string[]): void {
+	const parsed = checkWorkspaceUrlScheme(url);
+	if (!isHostAllowed(parsed.host, allowedHosts)) {
+		throw new Error(`${parsed.host} is not an allowed workspace host`);
+	}
+}
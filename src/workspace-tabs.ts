@@ -0,0 +1,165 @@
+/**
+ * Workspace tabs: the tabs the extension has opened workspaces in, by repository, branch and profile.
+ *
+ * A launch can then switch to the tab of a workspace that is already open instead of opening another
+ * one (see the profiles' reuse policy). The extension doesn't read the URLs of other sites' tabs, so
+ * only tabs it opened itself are known. They are kept in session storage, which survives restarts of
+ * the background worker but not of the browser, and are forgotten when closed. Changes are applied
+ * one after another, so a launch and a closing tab close together don't overwrite each other's.
+ */
+
+import browser, { type Tabs } from "webextension-polyfill";
+import type { ProfileLink } from "./launch";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Key under which the workspace tabs are stored in session storage. */
+const WORKSPACE_TABS_KEY = "workspaceTabs";
+
+/** The latest change of the workspace tabs; the next one starts after it has finished. */
+let workspaceTabsWrite: Promise<void> = Promise.resolve();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A tab a workspace was opened in. */
+interface WorkspaceTab {
+	/** The normalized repository URL. */
+	repoUrl: string;
+	/** The branch, if one was known. */
+	branchName?: string;
+	/** The profile the workspace was opened with. */
+	profileId: string;
+	/** The URL the tab was opened with. */
+	workspaceUrl: string;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Loads the workspace tabs.
+ *
+ * @returns The workspace tabs by tab id, or an empty map if none exist or storage access fails.
+ */
+async function loadWorkspaceTabs(): Promise<Record<string, WorkspaceTab>> {
+	try {
+		const res = await browser.storage.session.get(WORKSPACE_TABS_KEY);
+		const tabs = res[WORKSPACE_TABS_KEY];
+		return typeof tabs === "object" && tabs !== null ? (tabs as Record<string, WorkspaceTab>) : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Persists the workspace tabs.
+ *
+ * @param tabs - The workspace tabs by tab id.
+ */
+async function saveWorkspaceTabs(tabs: Record<string, WorkspaceTab>): Promise<void> {
+	await browser.storage.session.set({ [WORKSPACE_TABS_KEY]: tabs });
+}
+
+/**
+ * Changes the workspace tabs and saves them, after the changes already queued, so each one starts
+ * from the tabs the previous one saved.
+ *
+ * @param update - Changes the workspace tabs in place; returns false if there was nothing to change.
+ * @returns A promise settling when the change has been saved.
+ */
+function updateWorkspaceTabs(update: (tabs: Record<string, WorkspaceTab>) => boolean): Promise<void> {
+	const write = workspaceTabsWrite.then(async () => {
+		const tabs = await loadWorkspaceTabs();
+		if (update(tabs)) await saveWorkspaceTabs(tabs);
+	});
+	workspaceTabsWrite = write.catch(() => undefined);
+	return write;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Remembers the tab a workspace was opened in.
+ *
+ * @param tab - The new tab.
+ * @param link - The profile link it was opened for, with the URL it was opened with.
+ */
+export async function trackWorkspaceTab(tab: Tabs.Tab, link: ProfileLink): Promise<void> {
+	const tabId = tab.id;
+	if (tabId === undefined) return;
+
+	await updateWorkspaceTabs((tabs) => {
+		tabs[tabId] = {
+			repoUrl: link.context.repoUrl,
+			branchName: link.context.branchName,
+			profileId: link.profile.id,
+			workspaceUrl: link.workspaceUrl,
+		};
+		return true;
+	});
+}
+
+/**
+ * Forgets a closed tab.
+ *
+ * @param tabId - The tab id.
+ */
+export async function untrackWorkspaceTab(tabId: number): Promise<void> {
+	await updateWorkspaceTabs((tabs) => {
+		if (!(tabId in tabs)) return false;
+		delete tabs[tabId];
+		return true;
+	});
+}
+
+/**
+ * Finds an open tab with a workspace of the same repository, branch and profile.
+ *
+ * @param link - The profile link about to be launched.
+ * @returns The most recently opened such tab, or null if there is none.
+ */
+export async function findWorkspaceTab(link: ProfileLink): Promise<Tabs.Tab | null> {
+	const tabs = await loadWorkspaceTabs();
+	const tabIds = Object.keys(tabs)
+		.filter((tabId) => {
+			const tab = tabs[tabId];
+			return (
+				tab.repoUrl === link.context.repoUrl &&
+				tab.branchName === link.context.branchName &&
+				tab.profileId === link.profile.id
+			);
+		})
+		.map(Number)
+		.reverse();
+
+	for (const tabId of tabIds) {
+		try {
+			return await browser.tabs.get(tabId);
+		} catch {
+			// Closed while the worker wasn't listening
+			await untrackWorkspaceTab(tabId);
+		}
+	}
+	return null;
+}
+
+/**
+ * Brings a tab and its window to the front.
+ *
+ * @param tab - The tab.
+ */
+export async function focusTab(tab: Tabs.Tab): Promise<void> {
+	if (tab.id === undefined) return;
+
+	await browser.tabs.update(tab.id, { active: true });
+	if (tab.windowId !== undefined) {
+		await browser.windows.update(tab.windowId, { focused: true });
+	}
+}
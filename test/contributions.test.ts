@@ -0,0 +1,154 @@
+/**
+ * Health checks of the built-in button contributions against their example pages.
+ *
+ * For every example URL, the repository URL and ref are checked from the URL alone. Where the page
+ * has been saved to test/fixtures (see `pnpm run fixtures:refresh`), the page is loaded into the
+ * DOM and the contribution must find its place: the site is detected as the contribution's
+ * provider, the URL criteria match and the selector finds the element the button goes into.
+ * A host changing its layout then shows up as a failing test after refreshing the fixtures.
+ * Hand-written pages of hosts that need a session are named as synthetic in the test output; they
+ * only show that the contribution fits the markup they were written from. Contributions without an
+ * example page aren't checked.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	buttonContributions,
+	isSiteSuitable,
+	matchesContributionCriteria,
+	resolveApplication,
+} from "../src/button-contributions";
+import { queryElement } from "../src/dom";
+import { resolveRepositoryLocation } from "../src/repo-url";
+import { loadFixture, type Fixture } from "./fixtures";
+
+/** The jsdom instance of the test environment, for navigating to the example URL. */
+declare const jsdom: { reconfigure: (options: { url: string }) => void };
+
+/** The normalized repository URL and ref name every example URL must produce. */
+const EXPECTED_LOCATIONS: Record<string, { repoUrl: string; ref: string | null }> = {
+	"https://gitlab.com/svenefftinge/browser-extension-test": {
+		repoUrl: "https://gitlab.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://gitlab.com/svenefftinge/browser-extension-test/-/tree/my-branch": {
+		repoUrl: "https://gitlab.com/svenefftinge/browser-extension-test/-/tree/my-branch",
+		ref: "my-branch",
+	},
+	"https://gitlab.com/filiptronicek/empty": {
+		repoUrl: "https://gitlab.com/filiptronicek/empty",
+		ref: null,
+	},
+	"https://gitlab.com/svenefftinge/browser-extension-test/-/merge_requests/1/diffs": {
+		repoUrl: "https://gitlab.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://gitlab.com/svenefftinge/browser-extension-test/-/merge_requests/1": {
+		repoUrl: "https://gitlab.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://gitlab.com/svenefftinge/browser-extension-test/-/issues/1": {
+		repoUrl: "https://gitlab.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test/tree/my-branch": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test/tree/my-branch",
+		ref: "my-branch",
+	},
+	"https://github.com/svenefftinge/browser-extension-test/commit/82d701a9ac26ea25da9b24c5b3722b7a89e43b16": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test/issues/1": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test/pull/2": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test/pull/2/files": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: null,
+	},
+	"https://github.com/svenefftinge/browser-extension-test/blob/my-branch/README.md": {
+		repoUrl: "https://github.com/svenefftinge/browser-extension-test",
+		ref: "my-branch",
+	},
+	"https://gitea.com/gitea/tea/src/branch/main/README.md": {
+		repoUrl: "https://gitea.com/gitea/tea/src/branch/main",
+		ref: "main",
+	},
+	"https://gitea.com/gitea/tea": {
+		repoUrl: "https://gitea.com/gitea/tea",
+		ref: null,
+	},
+	"https://gitea.com/gitea/tea/src/branch/main": {
+		repoUrl: "https://gitea.com/gitea/tea/src/branch/main",
+		ref: "main",
+	},
+	"https://gitea.com/gitea/tea/pulls/1": {
+		repoUrl: "https://gitea.com/gitea/tea",
+		ref: null,
+	},
+	"https://gitea.com/gitea/tea/issues/1": {
+		repoUrl: "https://gitea.com/gitea/tea",
+		ref: null,
+	},
+	"https://bitbucket.gitpod-dev.com/users/svenefftinge/repos/browser-extension-test/browse": {
+		repoUrl: "https://bitbucket.gitpod-dev.com/scm/~svenefftinge/browser-extension-test.git",
+		ref: null,
+	},
+	"https://bitbucket.gitpod-dev.com/users/svenefftinge/repos/browser-extension-test/browse?at=refs%2Fheads%2Fmy-branch": {
+		repoUrl: "https://bitbucket.gitpod-dev.com/scm/~svenefftinge/browser-extension-test.git",
+		ref: "my-branch",
+	},
+	"https://bitbucket.org/efftinge/browser-extension-test/commits/": {
+		repoUrl: "https://bitbucket.org/efftinge/browser-extension-test",
+		ref: null,
+	},
+};
+
+/**
+ * Shows a saved page at its URL: navigates the test DOM there and replaces the document.
+ *
+ * @param url - The example URL.
+ * @param html - The saved page.
+ */
+function showPage(url: string, html: string): void {
+	jsdom.reconfigure({ url });
+	const page = new DOMParser().parseFromString(html, "text/html");
+	document.replaceChild(document.importNode(page.documentElement, true), document.documentElement);
+}
+
+/** The contributions that have example pages to check. */
+const checkedContributions = buttonContributions.filter(({ exampleUrls }) => exampleUrls.length > 0);
+
+describe.each(checkedContributions)("$id", (contribution) => {
+	describe.each(contribution.exampleUrls)("%s", (url) => {
+		it("normalizes the repository URL and reads the ref", async () => {
+			const expected = EXPECTED_LOCATIONS[url];
+			expect(expected, "add the example URL to EXPECTED_LOCATIONS").toBeDefined();
+
+			const location = await resolveRepositoryLocation(url, contribution.application);
+			expect(location.ref?.name ?? null).toBe(expected.ref);
+			expect(location.repoUrl).toBe(expected.repoUrl);
+		});
+
+		const fixture = loadFixture(url);
+		const page = fixture?.synthetic ? "synthetic page" : "saved page";
+
+		it.skipIf(fixture === null)(`finds its place on the ${page}`, () => {
+			showPage(url, (fixture as Fixture).html);
+
+			expect(isSiteSuitable()).toBe(true);
+			expect(resolveApplication()).toBe(contribution.application);
+			expect(matchesContributionCriteria(contribution.match, url)).toBe(true);
+			expect(queryElement(contribution.selector)).not.toBeNull();
+		});
+	});
+});
@@ -0,0 +1,65 @@
+/**
+ * Saved example pages of the button contributions, shared by the health-check tests and the
+ * script refreshing them (`pnpm run fixtures:refresh`).
+ *
+ * Each example URL of a contribution is saved as `test/fixtures/<host>/<path>.html`, with the
+ * query string appended to the file name where there is one. Pages that can't be fetched without a
+ * session may instead be written by hand under `test/fixtures/synthetic/`, at the same relative path;
+ * a saved page takes precedence over a synthetic one.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+/** Directory holding the saved pages. */
+export const FIXTURES_DIR = path.join(__dirname, "fixtures");
+
+/** Directory holding the hand-written pages, for hosts that need a session. */
+const SYNTHETIC_DIR = path.join(FIXTURES_DIR, "synthetic");
+
+/** The page of an example URL. */
+export interface Fixture {
+	/** The page's HTML. */
+	html: string;
+	/** Whether the page was written by hand rather than saved from the host. */
+	synthetic: boolean;
+}
+
+/**
+ * Turns one URL segment into a file name part, replacing characters file systems may reject.
+ *
+ * @param segment - The URL segment.
+ * @returns The file name part.
+ */
+function safeSegment(segment: string): string {
+	return decodeURIComponent(segment).replace(/[^\w.-]+/g, "_");
+}
+
+/**
+ * Resolves the file a page is saved to.
+ *
+ * @param url - The example URL.
+ * @returns The absolute path of its fixture.
+ */
+export function fixturePath(url: string): string {
+	const parsed = new URL(url);
+	const segments = parsed.pathname.split("/").filter(Boolean).map(safeSegment);
+	const name = (segments.pop() ?? "index") + (parsed.search ? `__${safeSegment(parsed.search.slice(1))}` : "");
+	return path.join(FIXTURES_DIR, parsed.host, ...segments, `${name}.html`);
+}
+
+/**
+ * Reads the page of an example URL: the saved page, or else the synthetic one.
+ *
+ * @param url - The example URL.
+ * @returns The page, or null if there is none yet.
+ */
+export function loadFixture(url: string): Fixture | null {
+	const file = fixturePath(url);
+	if (fs.existsSync(file)) {
+		return { html: fs.readFileSync(file, "utf8"), synthetic: false };
+	}
+
+	const synthetic = path.join(SYNTHETIC_DIR, path.relative(FIXTURES_DIR, file));
+	return fs.existsSync(synthetic) ? { html: fs.readFileSync(synthetic, "utf8"), synthetic: true } : null;
+}
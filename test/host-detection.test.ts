@@ -0,0 +1,71 @@
+/**
+ * Tests of the detection of the application a host runs, with and without a page: a Gitea or Forgejo
+ * instance on a `git.` host must not be mistaken for GitLab once one of its pages has shown it.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	registerCustomHosts,
+	registerDetectedHosts,
+	resolveApplicationForHost,
+	resolveDetectedApplication,
+} from "../src/button-contributions";
+
+/** The jsdom instance of the test environment, for navigating to a page's URL. */
+declare const jsdom: { reconfigure: (options: { url: string }) => void };
+
+/**
+ * Shows a page with the given head at a URL.
+ *
+ * @param url - The page URL.
+ * @param head - The page's head markup.
+ */
+function showPage(url: string, head: string): void {
+	jsdom.reconfigure({ url });
+	document.head.innerHTML = head;
+}
+
+/** The meta tags a Forgejo instance advertises by default. */
+const FORGEJO_HEAD = `<meta name="keywords" content="git,forge,forgejo"><meta name="application-name" content="Forgejo">`;
+
+afterEach(() => {
+	registerCustomHosts([]);
+	registerDetectedHosts({});
+});
+
+describe("resolveApplicationForHost", () => {
+	it("takes `git.` hosts for GitLab by their name", () => {
+		expect(resolveApplicationForHost("git.example.com")).toBe("gitlab");
+	});
+
+	it("follows what a page of the host showed", () => {
+		registerDetectedHosts({ "git.example.com": "gitea" });
+
+		expect(resolveApplicationForHost("git.example.com")).toBe("gitea");
+		expect(resolveApplicationForHost("git.example.org")).toBe("gitlab");
+	});
+
+	it("prefers the configured provider over what a page showed", () => {
+		registerCustomHosts([{ host: "git.example.com", provider: "gitlab" }]);
+		registerDetectedHosts({ "git.example.com": "gitea" });
+
+		expect(resolveApplicationForHost("git.example.com")).toBe("gitlab");
+	});
+});
+
+describe("resolveDetectedApplication", () => {
+	it("reads the application from the page on hosts that aren't configured", () => {
+		showPage("https://git.example.com/owner/repo", FORGEJO_HEAD);
+
+		expect(resolveDetectedApplication()).toBe("gitea");
+	});
+
+	it("reports nothing on built-in and configured hosts", () => {
+		showPage("https://github.com/owner/repo", FORGEJO_HEAD);
+		expect(resolveDetectedApplication()).toBeUndefined();
+
+		registerCustomHosts([{ host: "git.example.com", provider: "gitlab" }]);
+		showPage("https://git.example.com/owner/repo", FORGEJO_HEAD);
+		expect(resolveDetectedApplication()).toBeUndefined();
+	});
+});
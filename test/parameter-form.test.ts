@@ -0,0 +1,59 @@
+/**
+ * Tests of the form asking for a profile's launch parameters.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { askLaunchParameters } from "../src/parameter-form";
+import type { ProfileParameter } from "../src/settings";
+
+/** One parameter of each type. */
+const PARAMETERS: ProfileParameter[] = [
+	{ name: "ide", label: "IDE", type: "enum", options: ["vscode", "jetbrains"] },
+	{ name: "dotfiles", type: "string" },
+	{ name: "gpu", type: "boolean" },
+];
+
+/**
+ * Returns the input of a parameter in the open form.
+ */
+function input<T extends HTMLElement>(name: string): T {
+	return document.querySelector(`#eons-launch-options [name='${name}']`) as T;
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("askLaunchParameters", () => {
+	it("starts with the given values and resolves to the entered ones", async () => {
+		const answer = askLaunchParameters({
+			profileLabel: "Coder",
+			parameters: PARAMETERS,
+			values: { ide: "jetbrains", dotfiles: "", gpu: true },
+		});
+
+		expect(input<HTMLSelectElement>("ide").value).toBe("jetbrains");
+		expect(input<HTMLInputElement>("gpu").checked).toBe(true);
+
+		input<HTMLSelectElement>("ide").value = "vscode";
+		input<HTMLInputElement>("dotfiles").value = "https://github.com/me/dotfiles";
+		input<HTMLInputElement>("gpu").checked = false;
+		document.querySelector<HTMLButtonElement>("#eons-launch-options button[type='submit']")?.click();
+
+		await expect(answer).resolves.toEqual({ ide: "vscode", dotfiles: "https://github.com/me/dotfiles", gpu: false });
+		expect(document.getElementById("eons-launch-options")).toBeNull();
+	});
+
+	it("resolves to null when dismissed", async () => {
+		const options = { profileLabel: "Coder", parameters: PARAMETERS, values: {} };
+
+		const cancelled = askLaunchParameters(options);
+		document.querySelector<HTMLButtonElement>("#eons-launch-options button[type='button']")?.click();
+		await expect(cancelled).resolves.toBeNull();
+
+		const escaped = askLaunchParameters(options);
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+		await expect(escaped).resolves.toBeNull();
+		expect(document.getElementById("eons-launch-options")).toBeNull();
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests of the typed launch parameters of profiles: their definitions, values and template scope.
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseProfileParameters, repositoryKey, resolveParameterValues, templateScope } from "../src/parameters";
+import { renderTemplate } from "../src/template";
+import type { PageContext } from "../src/page-context";
+
+/** An IDE choice, a dotfiles repository and a GPU switch. */
+const PARAMETERS = parseProfileParameters([
+	{ name: "ide", label: "IDE", type: "enum", options: ["vscode", "jetbrains"], default: "jetbrains" },
+	{ name: "size", type: "enum", options: ["small", "large"] },
+	{ name: "dotfiles" },
+	{ name: "gpu", type: "boolean", default: "true" },
+]);
+
+/** The page context of a repository. */
+const CONTEXT: PageContext = {
+	repoUrl: "https://github.com/eons-dev/browser-ext",
+	branchName: "main",
+	owner: "eons-dev",
+	repo: "Browser-Ext",
+	host: "github.com",
+	provider: "github",
+	cloneUrlHttps: "https://github.com/eons-dev/browser-ext.git",
+	cloneUrlSsh: "git@github.com:eons-dev/browser-ext.git",
+};
+
+describe("parseProfileParameters", () => {
+	it("keeps the known fields and defaults the type to string", () => {
+		expect(PARAMETERS[2]).toEqual({ name: "dotfiles", type: "string" });
+		expect(PARAMETERS[3]).toEqual({ name: "gpu", type: "boolean", default: true });
+	});
+
+	it("rejects invalid definitions", () => {
+		expect(() => parseProfileParameters({ name: "ide" })).toThrow(/JSON array/);
+		expect(() => parseProfileParameters([{ name: "machine-size" }])).toThrow(/not a valid parameter name/);
+		expect(() => parseProfileParameters([{ name: "branchName" }])).toThrow(/would hide/);
+		expect(() => parseProfileParameters([{ name: "a" }, { name: "a" }])).toThrow(/defined twice/);
+		expect(() => parseProfileParameters([{ name: "ide", type: "enum" }])).toThrow(/needs "options"/);
+		expect(() => parseProfileParameters([{ name: "ide", type: "enum", options: ["a"], default: "b" }])).toThrow(
+			/not one of its options/
+		);
+		expect(() => parseProfileParameters([{ name: "gpu", type: "boolean", default: 1 }])).toThrow(/true or false/);
+		expect(() => parseProfileParameters([{ name: "n", type: "number" }])).toThrow(/unknown type/);
+	});
+});
+
+describe("resolveParameterValues", () => {
+	it("uses the defaults for missing and invalid values", () => {
+		expect(resolveParameterValues(PARAMETERS)).toEqual({ ide: "jetbrains", size: "small", dotfiles: "", gpu: true });
+		expect(resolveParameterValues(PARAMETERS, { ide: "emacs", size: "large", dotfiles: 3, gpu: false, old: "x" })).toEqual({
+			ide: "jetbrains",
+			size: "large",
+			dotfiles: "",
+			gpu: false,
+		});
+	});
+});
+
+describe("template scope", () => {
+	it("adds the parameter values to the page context", async () => {
+		const scope = templateScope({ context: CONTEXT, parameters: { ide: "vscode", gpu: false } });
+		await expect(
+			renderTemplate("{{ repo }}?ide={{ ide }}{% if gpu %}&gpu=1{% endif %}", scope)
+		).resolves.toBe("Browser-Ext?ide=vscode");
+	});
+
+	it("remembers values per repository", () => {
+		expect(repositoryKey(CONTEXT)).toBe("github.com/eons-dev/browser-ext");
+		expect(repositoryKey({ ...CONTEXT, branchName: "dev", filePath: "README.md" })).toBe(repositoryKey(CONTEXT));
+	});
+});
@@ -0,0 +1,250 @@
+// @vitest-environment node
+
+/**
+ * Tests of the workspace platform adapters against a local mock server.
+ *
+ * The server records every request and answers from a route table, so each test sets up the API
+ * responses of its scenario and checks both the requests the adapter sent and the URL it returned.
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { ProfileLink } from "../src/launch";
+import { extractPageContext } from "../src/page-context";
+import { launchWorkspace, platformApiHost, readJsonPath, toCoderWorkspaceName } from "../src/platforms";
+import type { WorkspacePlatform } from "../src/settings";
+
+/** A request received by the mock server. */
+interface RecordedRequest {
+	method: string;
+	path: string;
+	headers: http.IncomingHttpHeaders;
+	body: unknown;
+}
+
+/** A mock response: the status and the JSON body. */
+type MockResponse = [status: number, body?: unknown];
+
+/** Responses by "METHOD /path"; unknown routes answer 404. */
+let routes: Record<string, MockResponse> = {};
+let requests: RecordedRequest[] = [];
+let server: http.Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+	server = http.createServer((request, response) => {
+		let data = "";
+		request.on("data", (chunk) => (data += chunk));
+		request.on("end", () => {
+			requests.push({
+				method: request.method ?? "",
+				path: request.url ?? "",
+				headers: request.headers,
+				body: data ? JSON.parse(data) : undefined,
+			});
+			const [status, body] = routes[`${request.method} ${request.url}`] ?? [404, { message: "Not found" }];
+			response.writeHead(status, { "Content-Type": "application/json" });
+			response.end(body === undefined ? "" : JSON.stringify(body));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+	routes = {};
+	requests = [];
+});
+
+/**
+ * Builds the profile link of a GitHub branch page for a platform.
+ */
+function linkFor(platform: WorkspacePlatform): ProfileLink {
+	return {
+		profile: { id: "test", label: "Test", urlTemplate: "https://fallback.example/{{ repo }}", platform },
+		workspaceUrl: "https://fallback.example/browser-ext",
+		context: extractPageContext(
+			"https://github.com/eons-dev/browser-ext/tree/Feature/Login",
+			"github",
+			"https://github.com/eons-dev/browser-ext",
+			{ name: "Feature/Login", type: "branch" }
+		),
+	};
+}
+
+describe("url adapter", () => {
+	it("opens the rendered URL without calling any API", async () => {
+		await expect(launchWorkspace(linkFor({ type: "url" }), "")).resolves.toBe("https://fallback.example/browser-ext");
+		expect(requests).toHaveLength(0);
+	});
+});
+
+describe("coder adapter", () => {
+	const workspace = { id: "ws-1", name: "browser-ext-feature-login", owner_name: "dev" };
+
+	it("creates the workspace from the template when it doesn't exist", async () => {
+		routes["GET /api/v2/templates"] = [200, [{ id: "tpl-2", name: "node" }]];
+		routes["POST /api/v2/users/me/workspaces"] = [201, { ...workspace, latest_build: { status: "pending" } }];
+		const link = linkFor({ type: "coder", baseUrl: `${baseUrl}/`, template: "node", parameters: { repo: "{{ repoUrl }}" } });
+
+		await expect(launchWorkspace(link, "secret")).resolves.toBe(`${baseUrl}/@dev/browser-ext-feature-login`);
+
+		expect(requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+			"GET /api/v2/users/me/workspace/browser-ext-feature-login",
+			"GET /api/v2/templates",
+			"POST /api/v2/users/me/workspaces",
+		]);
+		expect(requests[0].headers["coder-session-token"]).toBe("secret");
+		expect(requests[2].body).toEqual({
+			template_id: "tpl-2",
+			name: "browser-ext-feature-login",
+			rich_parameter_values: [{ name: "repo", value: "https://github.com/eons-dev/browser-ext" }],
+		});
+	});
+
+	it("starts a stopped workspace", async () => {
+		routes["GET /api/v2/users/me/workspace/browser-ext-feature-login"] = [
+			200,
+			{ ...workspace, latest_build: { status: "stopped" } },
+		];
+		routes["POST /api/v2/workspaces/ws-1/builds"] = [201, {}];
+
+		await expect(launchWorkspace(linkFor({ type: "coder", baseUrl }), "secret")).resolves.toBe(
+			`${baseUrl}/@dev/browser-ext-feature-login`
+		);
+		expect(requests[1]).toMatchObject({ method: "POST", body: { transition: "start" } });
+	});
+
+	it("leaves a running workspace alone", async () => {
+		routes["GET /api/v2/users/me/workspace/ws"] = [200, { ...workspace, name: "ws", latest_build: { status: "running" } }];
+
+		await expect(launchWorkspace(linkFor({ type: "coder", baseUrl, workspaceName: "ws" }), "secret")).resolves.toBe(
+			`${baseUrl}/@dev/ws`
+		);
+		expect(requests).toHaveLength(1);
+	});
+
+	it("fails when the workspace doesn't exist and no template is configured", async () => {
+		await expect(launchWorkspace(linkFor({ type: "coder", baseUrl }), "secret")).rejects.toThrow(/no template/);
+	});
+
+	it("reports API errors", async () => {
+		routes["GET /api/v2/users/me/workspace/browser-ext-feature-login"] = [401, { message: "Unauthorized" }];
+
+		await expect(launchWorkspace(linkFor({ type: "coder", baseUrl }), "wrong")).rejects.toThrow(/HTTP 401/);
+	});
+});
+
+describe("kasm adapter", () => {
+	it("requests a session with the key pair and resolves its relative URL", async () => {
+		routes["POST /api/public/request_kasm"] = [200, { kasm_url: "/#/connect/kasm/abc" }];
+		const link = linkFor({ type: "kasm", baseUrl, template: "img-1", parameters: { BRANCH: "{{ branchName }}" } });
+
+		await expect(launchWorkspace(link, "key:sec:ret")).resolves.toBe(`${baseUrl}/#/connect/kasm/abc`);
+		expect(requests[0].body).toEqual({
+			api_key: "key",
+			api_key_secret: "sec:ret",
+			image_id: "img-1",
+			environment: { BRANCH: "Feature/Login" },
+		});
+	});
+
+	it("raises the error message of a failed request", async () => {
+		routes["POST /api/public/request_kasm"] = [200, { error_message: "No resources" }];
+
+		await expect(launchWorkspace(linkFor({ type: "kasm", baseUrl, template: "img-1" }), "key:secret")).rejects.toThrow(
+			"Kasm: No resources"
+		);
+	});
+
+	it("rejects a token without a secret", async () => {
+		await expect(launchWorkspace(linkFor({ type: "kasm", baseUrl, template: "img-1" }), "key")).rejects.toThrow(
+			/key:secret/
+		);
+		expect(requests).toHaveLength(0);
+	});
+});
+
+describe("generic REST adapter", () => {
+	it("sends the rendered body with the bearer token and opens the URL in the response", async () => {
+		routes["PUT /workspaces/browser-ext"] = [200, { data: { url: "/ws/42" } }];
+		const link = linkFor({
+			type: "rest",
+			requestUrl: `${baseUrl}/workspaces/{{ repo }}`,
+			method: "PUT",
+			requestBody: '{ "repo": {{ repoUrl | json }}, "branch": {{ branchName | json }} }',
+			responseUrlPath: "data.url",
+		});
+
+		await expect(launchWorkspace(link, "token")).resolves.toBe(`${baseUrl}/ws/42`);
+		expect(requests[0].headers.authorization).toBe("Bearer token");
+		expect(requests[0].body).toEqual({ repo: "https://github.com/eons-dev/browser-ext", branch: "Feature/Login" });
+	});
+
+	it("escapes values for JSON strings, so a quote in the branch name can't add fields", async () => {
+		routes["POST /launch"] = [200, { url: "/ws/42" }];
+		const rest = linkFor({
+			type: "rest",
+			requestUrl: `${baseUrl}/launch`,
+			requestBody: '{ "branch": "{{ branchName }}", "ref": {{ branchName | json }}, "admin": false }',
+		});
+		const branchName = 'fix", "admin": true, "x": "\\';
+		const link = { ...rest, context: { ...rest.context, branchName } };
+
+		await expect(launchWorkspace(link, "")).resolves.toBe(`${baseUrl}/ws/42`);
+		expect(requests[0].body).toEqual({ branch: branchName, ref: branchName, admin: false });
+	});
+
+	it("opens only http(s) URLs from the response, also outside safe mode", async () => {
+		routes["POST /launch"] = [200, { url: "javascript:alert(1)" }];
+
+		await expect(launchWorkspace(linkFor({ type: "rest", requestUrl: `${baseUrl}/launch` }), "")).rejects.toThrow(
+			/javascript: URLs can't be opened/
+		);
+	});
+
+	it("checks the URL in the response against the allowed hosts in safe mode", async () => {
+		routes["POST /launch"] = [200, { url: "https://elsewhere.example/ws" }];
+		const link = linkFor({ type: "rest", requestUrl: `${baseUrl}/launch` });
+
+		await expect(launchWorkspace(link, "", { safeMode: true, allowedHosts: [] })).rejects.toThrow(/not an allowed/);
+		await expect(
+			launchWorkspace(link, "", { safeMode: true, allowedHosts: ["elsewhere.example"] })
+		).resolves.toBe("https://elsewhere.example/ws");
+
+		routes["POST /launch"] = [200, { url: "/ws/42" }];
+		await expect(launchWorkspace(link, "", { safeMode: true, allowedHosts: [] })).resolves.toBe(`${baseUrl}/ws/42`);
+	});
+
+	it("fails when the response has no URL", async () => {
+		routes["POST /launch"] = [200, { id: 1 }];
+
+		await expect(launchWorkspace(linkFor({ type: "rest", requestUrl: `${baseUrl}/launch` }), "")).rejects.toThrow(
+			'no URL at "url"'
+		);
+		expect(requests[0].headers.authorization).toBeUndefined();
+	});
+});
+
+describe("helpers", () => {
+	it("turns rendered names into valid Coder workspace names", () => {
+		expect(toCoderWorkspaceName("Browser_Ext-Feature/Login")).toBe("browser-ext-feature-login");
+		expect(toCoderWorkspaceName("a".repeat(40))).toHaveLength(32);
+		expect(() => toCoderWorkspaceName("///")).toThrow();
+	});
+
+	it("reads values by dot-separated paths", () => {
+		expect(readJsonPath({ items: [{ url: "u" }] }, "items.0.url")).toBe("u");
+		expect(readJsonPath({ items: [] }, "items.0.url")).toBeUndefined();
+	});
+
+	it("finds the API host of a platform", () => {
+		expect(platformApiHost({ type: "url" })).toBeNull();
+		expect(platformApiHost({ type: "coder", baseUrl: "https://coder.example:8443/" })).toBe("coder.example:8443");
+		expect(platformApiHost({ type: "rest", requestUrl: "https://api.example/{{ repo }}" })).toBe("api.example");
+		expect(platformApiHost({ type: "rest", requestUrl: "{{ apiUrl }}/launch" })).toBeNull();
+	});
+});
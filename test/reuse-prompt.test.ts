@@ -0,0 +1,56 @@
+/**
+ * Tests of the dialog asking whether to reuse an existing workspace.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { askWorkspaceReuse } from "../src/reuse-prompt";
+
+/**
+ * Returns the choices the open dialog offers.
+ */
+function offeredChoices(): string[] {
+	return Array.from(document.querySelectorAll<HTMLButtonElement>("#eons-reuse-prompt button")).map(
+		(button) => button.dataset.choice ?? ""
+	);
+}
+
+/**
+ * Clicks a choice of the open dialog.
+ */
+function choose(choice: string): void {
+	document.querySelector<HTMLButtonElement>(`#eons-reuse-prompt button[data-choice='${choice}']`)?.click();
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("askWorkspaceReuse", () => {
+	it("offers switching to an open tab rather than resuming", async () => {
+		const answer = askWorkspaceReuse({ profileLabel: "Coder", canSwitch: true, canResume: true });
+
+		expect(offeredChoices()).toEqual(["switch", "new", "cancel"]);
+		choose("switch");
+		await expect(answer).resolves.toBe("switch");
+		expect(document.getElementById("eons-reuse-prompt")).toBeNull();
+	});
+
+	it("offers resuming when no tab is open", async () => {
+		const answer = askWorkspaceReuse({ profileLabel: "Coder", canSwitch: false, canResume: true });
+
+		expect(offeredChoices()).toEqual(["resume", "new", "cancel"]);
+		choose("new");
+		await expect(answer).resolves.toBe("new");
+	});
+
+	it("resolves to null when dismissed", async () => {
+		const cancelled = askWorkspaceReuse({ profileLabel: "Coder", canSwitch: true, canResume: false });
+		choose("cancel");
+		await expect(cancelled).resolves.toBeNull();
+
+		const escaped = askWorkspaceReuse({ profileLabel: "Coder", canSwitch: true, canResume: false });
+		document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+		await expect(escaped).resolves.toBeNull();
+		expect(document.getElementById("eons-reuse-prompt")).toBeNull();
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests of the extension's own template filters and tags.
+ */
+
+import { describe, expect, it } from "vitest";
+import { renderSafeUrl, renderTemplate } from "../src/template";
+import { dnsLabel, shortHash } from "../src/template-filters";
+
+/** A page context with a branch that needs cleaning up. */
+const SCOPE = {
+	repoUrl: "https://github.com/eons-dev/browser-ext",
+	branchName: "Feature/Login_Form",
+	repo: "browser-ext",
+	lineRange: null,
+};
+
+describe("template filters", () => {
+	it("turns values into names", async () => {
+		await expect(renderTemplate("{{ branchName | slugify }}", SCOPE)).resolves.toBe("feature-login-form");
+		await expect(renderTemplate("{{ 'Crème brûlée' | slugify }}", SCOPE)).resolves.toBe("creme-brulee");
+		await expect(renderTemplate("{{ 'fixLoginForm_v2' | lower_kebab }}", SCOPE)).resolves.toBe("fix-login-form-v2");
+	});
+
+	it("shortens DNS labels with a hash of the full name", () => {
+		const long = "feature/a-very-long-branch-name-for-a-workspace";
+		const label = dnsLabel(long, 32);
+
+		expect(label).toHaveLength(32);
+		expect(label).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+		expect(label.endsWith(shortHash(long, 6))).toBe(true);
+		expect(dnsLabel(`${long}-2`, 32)).not.toBe(label);
+		expect(dnsLabel("Short_Name")).toBe("short-name");
+		expect(dnsLabel("///")).toBe("");
+	});
+
+	it("hashes values stably", async () => {
+		await expect(renderTemplate("{{ repoUrl | hash }}", SCOPE)).resolves.toMatch(/^[0-9a-f]{8}$/);
+		await expect(renderTemplate("{{ repoUrl | hash: 4 }}", SCOPE)).resolves.toBe(shortHash(SCOPE.repoUrl).slice(0, 4));
+		expect(shortHash("a")).not.toBe(shortHash("b"));
+		await expect(renderTemplate("{{ repoUrl | hash: 0 }}", SCOPE)).resolves.toBe(shortHash(SCOPE.repoUrl).slice(0, 1));
+		await expect(renderTemplate("{{ repoUrl | hash: 99 }}", SCOPE)).resolves.toMatch(/^[0-9a-f]{16}$/);
+	});
+
+	it("truncates the middle and encodes as Base64", async () => {
+		await expect(renderTemplate("{{ 'abcdefghijklmnopqrstuvwxyz' | truncate_middle: 10 }}", SCOPE)).resolves.toBe(
+			"abcd...xyz"
+		);
+		await expect(renderTemplate("{{ 'short' | truncate_middle: 10 }}", SCOPE)).resolves.toBe("short");
+		await expect(renderTemplate("{{ 'abcdefghij' | truncate_middle: 2 }}", SCOPE)).resolves.toBe("ab");
+		await expect(renderTemplate("{{ 'abcdefghij' | truncate_middle: 3 }}", SCOPE)).resolves.toBe("abc");
+		await expect(renderTemplate("{{ 'abcdefghij' | truncate_middle: 4 }}", SCOPE)).resolves.toBe("a...");
+		await expect(renderTemplate("{{ 'hi?>' | base64url }}", SCOPE)).resolves.toBe("aGk_Pg");
+	});
+});
+
+describe("default tag", () => {
+	it("sets missing and empty variables only", async () => {
+		await expect(renderTemplate("{% default lineRange = '1' %}{{ lineRange }}", SCOPE)).resolves.toBe("1");
+		await expect(renderTemplate("{% default branchName = 'main' %}{{ branchName }}", SCOPE)).resolves.toBe(
+			"Feature/Login_Form"
+		);
+		await expect(renderTemplate("{% default target = repo | upcase %}{{ target }}", SCOPE)).resolves.toBe(
+			"BROWSER-EXT"
+		);
+	});
+
+	it("defines variables in safe mode", async () => {
+		await expect(
+			renderSafeUrl("https://ws.example.com/?ws={% default name = 'dev' %}{{ name }}-{{ branchName | dns_label }}", SCOPE)
+		).resolves.toBe("https://ws.example.com/?ws=dev-feature-login-form");
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests of the safe URL rendering mode: strict variables, context-aware encoding and URL validation.
+ */
+
+import { describe, expect, it } from "vitest";
+import { renderSafeUrl } from "../src/template";
+import { checkWorkspaceUrl, encodeTemplateOutputs, isHostAllowed, markTemplateOutput, templateHost } from "../src/url-safety";
+
+/** A page context with a branch that needs encoding, and the optional variables unset. */
+const SCOPE = {
+	repoUrl: "https://github.com/eons-dev/browser-ext",
+	branchName: "feature/a b&c",
+	repo: "browser-ext",
+	host: "github.com",
+	filePath: "src/my file.ts",
+	lineRange: null,
+};
+
+describe("renderSafeUrl", () => {
+	it("encodes query values completely", async () => {
+		await expect(renderSafeUrl("https://ws.example.com/?repo={{ repoUrl }}&ref={{ branchName }}", SCOPE)).resolves.toBe(
+			"https://ws.example.com/?repo=https%3A%2F%2Fgithub.com%2Feons-dev%2Fbrowser-ext&ref=feature%2Fa%20b%26c"
+		);
+	});
+
+	it("keeps the slashes of path values", async () => {
+		await expect(renderSafeUrl("https://ws.example.com/{{ repo }}/{{ filePath }}", SCOPE)).resolves.toBe(
+			"https://ws.example.com/browser-ext/src/my%20file.ts"
+		);
+	});
+
+	it("treats the fragment of single-page apps like a path and a query", async () => {
+		await expect(
+			renderSafeUrl("https://ws.example.com/#/cast/{{ branchName }}?kasm_url={{ repoUrl }}", SCOPE)
+		).resolves.toBe(
+			"https://ws.example.com/#/cast/feature/a%20b%26c?kasm_url=https%3A%2F%2Fgithub.com%2Feons-dev%2Fbrowser-ext"
+		);
+	});
+
+	it("leaves values in the origin and raw values alone", async () => {
+		await expect(renderSafeUrl("https://{{ host }}/x?repo={{ repoUrl | raw }}", SCOPE)).resolves.toBe(
+			"https://github.com/x?repo=https://github.com/eons-dev/browser-ext"
+		);
+	});
+
+	it("doesn't encode url_encode results twice", async () => {
+		await expect(renderSafeUrl("https://ws.example.com/?ref={{ branchName | url_encode }}", SCOPE)).resolves.toBe(
+			"https://ws.example.com/?ref=feature%2Fa%20b%26c"
+		);
+	});
+
+	it("renders unset variables as nothing and rejects unknown ones", async () => {
+		await expect(renderSafeUrl("https://ws.example.com/?l={{ lineRange | default: '1' }}", SCOPE)).resolves.toBe(
+			"https://ws.example.com/?l=1"
+		);
+		await expect(renderSafeUrl("https://ws.example.com/?r={{ repoURL }}", SCOPE)).rejects.toThrow(/undefined variable/);
+	});
+});
+
+describe("encodeTemplateOutputs", () => {
+	it("strips marker characters from values", () => {
+		expect(encodeTemplateOutputs(`https://x.example/?a=${markTemplateOutput("b")}`)).toBe("https://x.example/?a=b");
+	});
+});
+
+describe("URL validation", () => {
+	it("finds the fixed host of a template", () => {
+		expect(templateHost("https://coder.example.com:8443/@me/{{ repo }}")).toBe("coder.example.com:8443");
+		expect(templateHost("{{ base }}/x")).toBeNull();
+	});
+
+	it("matches allowed hosts, subdomains and ports", () => {
+		expect(isHostAllowed("ws.example.com", ["WS.example.com"])).toBe(true);
+		expect(isHostAllowed("a.b.example.com", ["*.example.com"])).toBe(true);
+		expect(isHostAllowed("example.com:8080", ["*.example.com"])).toBe(true);
+		expect(isHostAllowed("example.com:8080", ["example.com:443"])).toBe(false);
+		expect(isHostAllowed("badexample.com", ["*.example.com"])).toBe(false);
+	});
+
+	it("rejects other schemes and hosts", () => {
+		expect(() => checkWorkspaceUrl("https://ws.example.com/x", ["ws.example.com"])).not.toThrow();
+		expect(() => checkWorkspaceUrl("javascript:alert(1)", ["ws.example.com"])).toThrow(/http or https/);
+		expect(() => checkWorkspaceUrl("https://evil.example/x", ["ws.example.com"])).toThrow(/not an allowed/);
+		expect(() => checkWorkspaceUrl("/relative", [])).toThrow(/not a valid URL/);
+	});
+});